@@ -0,0 +1,23 @@
+import type { Page } from "@playwright/test";
+import type { Account } from "../security/accounts";
+
+/**
+ * How to log into one application, used by the {@link SessionStore} to
+ * create sessions and to detect when a saved session stopped working.
+ */
+export interface AuthProvider {
+  /** Application name, used in the saved session file names. */
+  readonly name: string;
+
+  /**
+   * Perform the full interactive login (credentials and second factor) in
+   * `page`, and return once the user is logged in.
+   */
+  login(page: Page, account: Account): Promise<void>;
+
+  /**
+   * Open a page that requires a session and tell whether it was accepted
+   * (e.g. not redirected to the login form).
+   */
+  isLoggedIn(page: Page): Promise<boolean>;
+}
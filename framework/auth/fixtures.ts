@@ -0,0 +1,100 @@
+import type { Page } from "@playwright/test";
+import { missingConfig } from "../env/missing-config";
+import { Accounts } from "../security/accounts";
+import { test as base } from "../security/fixtures";
+import type { AuthProvider } from "./auth-provider";
+import { HerokuAuth } from "./heroku-auth";
+import { SessionStore } from "./session-store";
+
+/**
+ * Test-scoped fixtures provided by the auth layer.
+ */
+export type AuthFixtures = {
+  /**
+   * Option: start every browser context of the test logged in as the
+   * worker's account (see {@link AuthFixtures.authenticatedPage}). Default =
+   * `false`: contexts start logged out, and tests that need no session
+   * lease no account and trigger no login.
+   */
+  authenticated: boolean;
+
+  /**
+   * A page that is logged in as `account`: it starts from the saved session
+   * (see `storageState`) and, if the application rejects that session
+   * (expired or revoked server-side), logs in again and saves the new session.
+   * Requires the `authenticated` option.
+   *
+   * @example
+   * ```ts
+   * import { test } from '@framework/auth/fixtures';
+   *
+   * test.use({ authenticated: true });
+   *
+   * test('dashboard lists apps', async ({ authenticatedPage }) => {
+   *   await authenticatedPage.goto('https://dashboard.heroku.com/apps');
+   * });
+   * ```
+   */
+  authenticatedPage: Page;
+};
+
+/**
+ * Worker-scoped fixtures provided by the auth layer.
+ */
+export type AuthWorkerFixtures = {
+  /**
+   * Option: the application to log into. Defaults to {@link HerokuAuth}.
+   */
+  authProvider: AuthProvider;
+
+  /**
+   * Saved sessions of `authProvider`, see {@link SessionStore}.
+   */
+  sessionStore: SessionStore;
+};
+
+/**
+ * `test` from the security layer, extended with {@link AuthFixtures} and
+ * {@link AuthWorkerFixtures}.
+ *
+ * With `test.use({ authenticated: true })`, every context starts logged in:
+ * the built-in `storageState` option is set to the saved session of the
+ * account this worker leased, logging in once per account when there is no
+ * fresh one. Accounts are therefore leased per worker by default here
+ * (`accountLease: "worker"`), so `account` is that same account.
+ */
+export const test = base.extend<AuthFixtures, AuthWorkerFixtures>({
+  authProvider: [new HerokuAuth(), { option: true, scope: "worker" }],
+
+  sessionStore: [async ({ authProvider }, use) => {
+    await use(new SessionStore(authProvider));
+  }, { scope: "worker" }],
+
+  accountLease: "worker",
+
+  authenticated: [false, { option: true }],
+
+  // `account` is not a dependency: it would be leased for every test.
+  storageState: async ({ storageState, authenticated, accountLease, accountPool, browser, sessionStore, baseURL, locale }, use, testInfo) => {
+    if (!authenticated) return use(storageState);
+    if (accountLease !== "worker") {
+      throw new Error('Auth: The authenticated option needs accounts leased per worker (accountLease: "worker")');
+    }
+    if (!accountPool.size) {
+      missingConfig("No test accounts. Set TEST_ACCOUNTS, or HEROKU_USERNAME and HEROKU_PWD.");
+    }
+    const lease = await accountPool.acquireForWorker(`worker ${testInfo.parallelIndex}`);
+    await use(await sessionStore.ensure(browser, Accounts.get(lease.name), { baseURL, locale }));
+  },
+
+  authenticatedPage: async ({ page, account, authenticated, sessionStore }, use, testInfo) => {
+    if (!authenticated) throw new Error("Auth: authenticatedPage needs test.use({ authenticated: true })");
+    if (!(await sessionStore.provider.isLoggedIn(page))) {
+      testInfo.annotations.push({ type: "auth", description: `Saved session of ${account.name} was rejected, logged in again` });
+      sessionStore.invalidate(account);
+      await sessionStore.provider.login(page, account);
+      await sessionStore.save(page.context(), account);
+    }
+    await use(page);
+  },
+});
@@ -0,0 +1,24 @@
+import type { Page } from "@playwright/test";
+import { App } from "../pages/app";
+import type { Account } from "../security/accounts";
+import type { AuthProvider } from "./auth-provider";
+
+/**
+ * Heroku login: email and password on `id.heroku.com`, then the TOTP code
+ * of the account's authenticator.
+ */
+export class HerokuAuth implements AuthProvider {
+  readonly name = "heroku";
+
+  async login(page: Page, account: Account): Promise<void> {
+    if (!account.otp) throw new Error(`HerokuAuth: Account ${account.name} has no otpUri`);
+    const { login } = new App(page).heroku;
+    await login.open();
+    await login.signIn(account);
+  }
+
+  async isLoggedIn(page: Page): Promise<boolean> {
+    await page.goto(new App(page).heroku.dashboard.url);
+    return !new URL(page.url()).hostname.startsWith("id.");
+  }
+}
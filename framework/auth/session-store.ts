@@ -0,0 +1,132 @@
+import type { Browser, BrowserContext, BrowserContextOptions } from "@playwright/test";
+import * as fs from "fs";
+import * as path from "path";
+import { Env } from "../env/env";
+import { Logger } from "../logger/logger";
+import type { Account } from "../security/accounts";
+import { withFileLock, writeFileAtomic } from "../utils/file-lock";
+import type { AuthProvider } from "./auth-provider";
+
+/**
+ * Side file stored next to each saved session.
+ */
+type SessionMeta = {
+  account: string;
+  savedAt: number;
+  expiresAt: number;
+};
+
+/**
+ * Options for {@link SessionStore}.
+ */
+export type SessionStoreOptions = {
+  /** Directory of the saved sessions. Defaults to `AUTH_STATE_DIR`, else `.auth`. */
+  dir?: string;
+  /** How long a saved session is reused. Defaults to `AUTH_SESSION_TTL`, else 30 minutes. */
+  ttlMs?: number;
+};
+
+const log = Logger.for("auth");
+
+/**
+ * Saved login sessions (Playwright `storageState` files), one per
+ * application and account, so the full login with its OTP step runs once
+ * and every later test starts already logged in.
+ *
+ * Sessions expire after `ttlMs`. Creating one holds a file lock, so when
+ * several workers need the same account at once, only one of them logs in
+ * and the others reuse its session.
+ *
+ * @example
+ * ```ts
+ * const sessions = new SessionStore(new HerokuAuth());
+ * const file = await sessions.ensure(browser, Accounts.get("admin"));
+ * const context = await browser.newContext({ storageState: file });
+ * ```
+ */
+export class SessionStore {
+  private readonly dir: string;
+  private readonly ttlMs: number;
+
+  constructor(readonly provider: AuthProvider, opts: SessionStoreOptions = {}) {
+    this.dir = opts.dir ?? Env.getString("AUTH_STATE_DIR", false) ?? ".auth";
+    this.ttlMs = opts.ttlMs ?? Env.getDuration("AUTH_SESSION_TTL", false, 30 * 60_000);
+  }
+
+  /**
+   * Path of the `storageState` file of `account`.
+   */
+  statePath(account: Account): string {
+    return path.join(this.dir, this.provider.name, `${account.name}.json`);
+  }
+
+  /**
+   * Whether a saved, unexpired session exists for `account`.
+   */
+  isFresh(account: Account): boolean {
+    const metaPath = this.metaPath(account);
+    if (!fs.existsSync(this.statePath(account)) || !fs.existsSync(metaPath)) return false;
+    try {
+      const meta: SessionMeta = JSON.parse(fs.readFileSync(metaPath, "utf8"));
+      return Date.now() < meta.expiresAt;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Return the session file of `account`, logging in first (in a new
+   * context of `browser`) if there is no fresh session.
+   *
+   * @param contextOptions - Options for the login context (e.g. `baseURL`, `locale`).
+   * @param opts.force - Log in even if a fresh session exists.
+   * @returns The `storageState` path.
+   */
+  async ensure(
+    browser: Browser,
+    account: Account,
+    contextOptions: BrowserContextOptions = {},
+    opts: { force?: boolean } = {},
+  ): Promise<string> {
+    const file = this.statePath(account);
+    if (!opts.force && this.isFresh(account)) return file;
+
+    return withFileLock(`${file}.lock`, async () => {
+      // Another worker may have logged in while we waited for the lock.
+      if (!opts.force && this.isFresh(account)) return file;
+
+      log.info(`Logging into ${this.provider.name} as ${account.name}`);
+      const context = await browser.newContext({ ...contextOptions, storageState: undefined });
+      try {
+        await this.provider.login(await context.newPage(), account);
+        await this.save(context, account);
+      } finally {
+        await context.close();
+      }
+      return file;
+    }, { timeoutMs: 180_000, staleMs: 180_000 });
+  }
+
+  /**
+   * Save the session of a logged-in context for `account`.
+   */
+  async save(context: BrowserContext, account: Account): Promise<void> {
+    const state = await context.storageState();
+    const savedAt = Date.now();
+    const meta: SessionMeta = { account: account.name, savedAt, expiresAt: savedAt + this.ttlMs };
+    writeFileAtomic(this.statePath(account), JSON.stringify(state, null, 2));
+    writeFileAtomic(this.metaPath(account), JSON.stringify(meta, null, 2));
+  }
+
+  /**
+   * Forget the saved session of `account`, e.g. after the server rejected it.
+   */
+  invalidate(account: Account): void {
+    fs.rmSync(this.statePath(account), { force: true });
+    fs.rmSync(this.metaPath(account), { force: true });
+  }
+
+  private metaPath(account: Account): string {
+    return this.statePath(account).replace(/\.json$/, ".meta.json");
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Parse CSV text (RFC 4180) into one object per line, keyed by the header
+ * line. Fields may be quoted (`"a, b"`, with `""` for a quote) and span
+ * lines; blank lines are skipped. Values are returned as strings.
+ *
+ * @throws If a line has more fields than the header, or a quote is not closed.
+ */
+export function parseCsv(text: string, sep = ","): Record<string, string>[] {
+  const lines = parseLines(text.replace(/^\uFEFF/, ""), sep);
+  const header = (lines.shift() ?? []).map(h => h.trim());
+  return lines.map((fields, i) => {
+    if (fields.length > header.length) {
+      throw new Error(`CSV: Line ${i + 2} has ${fields.length} fields, the header has ${header.length}`);
+    }
+    return Object.fromEntries(header.map((key, j) => [key, fields[j] ?? ""]));
+  });
+}
+
+/**
+ * Split CSV text into lines of fields.
+ */
+function parseLines(text: string, sep: string): string[][] {
+  const lines: string[][] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  const endLine = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== "") lines.push(fields);
+    fields = [];
+    field = "";
+  };
+
+  while (i < text.length) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === sep) {
+      fields.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      endLine();
+    } else {
+      field += c;
+    }
+    i++;
+  }
+  if (quoted) throw new Error("CSV: Unterminated quoted field");
+  if (field !== "" || fields.length) endLine();
+  return lines;
+}
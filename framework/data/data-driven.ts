@@ -0,0 +1,53 @@
+/**
+ * Title of the test of one row: a function of the row, or a template where
+ * `{column}` is replaced by the row's value and `{index}` by its 1-based
+ * position, e.g. `"Login fails for {case}"`.
+ */
+export type RowTitle<R> = string | ((row: R, index: number) => string);
+
+/**
+ * A row paired with the title of its test, see {@link eachRow}.
+ */
+export type TitledRow<R> = {
+  title: string;
+  row: R;
+  /** 0-based position in the data. */
+  index: number;
+};
+
+function formatTitle<R extends object>(title: RowTitle<R>, row: R, index: number): string {
+  if (typeof title === "function") return title(row, index);
+  return title.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    if (key === "index") return String(index + 1);
+    const value = (row as Record<string, unknown>)[key];
+    return value === undefined ? placeholder : String(value);
+  });
+}
+
+/**
+ * Give each row (e.g. from `loadData`) the title of its test, to declare
+ * one test per row.
+ *
+ * Titles that come out identical get the row number appended, since
+ * Playwright needs unique titles. Declare the tests in the spec itself:
+ * Playwright reads the fixtures a test needs from its own parameter list,
+ * so the test function cannot be wrapped.
+ *
+ * @example
+ * ```ts
+ * for (const { title, row } of eachRow(loadData("login-failures.yaml", schema), "Login fails: {case}")) {
+ *   test(title, async ({ app }) => {
+ *     await app.github.login.signIn(row);
+ *   });
+ * }
+ * ```
+ */
+export function eachRow<R extends object>(rows: readonly R[], title: RowTitle<R>): TitledRow<R>[] {
+  const seen = new Set<string>();
+  return rows.map((row, index) => {
+    let name = formatTitle(title, row, index);
+    if (seen.has(name)) name = `${name} (row ${index + 1})`;
+    seen.add(name);
+    return { title: name, row, index };
+  });
+}
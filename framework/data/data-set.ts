@@ -0,0 +1,239 @@
+import * as fs from "fs";
+import * as path from "path";
+import YAML from "yaml";
+import { Env } from "../env/env";
+import { parseCsv } from "./csv";
+
+/**
+ * Common properties of a column declared in a {@link DataSchema}.
+ */
+type ColumnBase<T> = {
+  /**
+   * Whether every row must have a value.
+   * Defaults to `true` unless a `default` is provided.
+   */
+  required?: boolean;
+  /**
+   * Value used when a row has none (missing, `null` or an empty CSV cell).
+   */
+  default?: T;
+  /**
+   * Human readable description, included in validation errors.
+   */
+  description?: string;
+};
+
+/**
+ * Declaration of one column of a data file.
+ *
+ * Values are checked against `type`; strings (as found in CSV) are
+ * converted to numbers, booleans (`true/false`, `yes/no`, `1/0`) and lists
+ * (split on `sep`, default `","`).
+ */
+export type DataColumn =
+  | (ColumnBase<string> & { type: "string"; pattern?: RegExp })
+  | (ColumnBase<number> & { type: "number" })
+  | (ColumnBase<boolean> & { type: "boolean" })
+  | (ColumnBase<string> & { type: "enum"; values: readonly string[] })
+  | (ColumnBase<string[]> & { type: "list"; sep?: string });
+
+/**
+ * The columns of a data file, keyed by name. Columns not declared here are
+ * reported as errors, which catches typos in the data.
+ */
+export type DataSchema = Record<string, DataColumn>;
+
+type ColumnValue<C> =
+  C extends { type: "string" } ? string :
+  C extends { type: "number" } ? number :
+  C extends { type: "boolean" } ? boolean :
+  C extends { type: "enum"; values: readonly (infer V)[] } ? V :
+  C extends { type: "list" } ? string[] :
+  unknown;
+
+type ColumnResult<C> =
+  C extends { default: {} | null } ? ColumnValue<C> :
+  C extends { required: false } ? ColumnValue<C> | undefined :
+  ColumnValue<C>;
+
+/**
+ * One validated, frozen row of a data file, typed from its {@link DataSchema}.
+ */
+export type DataRow<S extends DataSchema> = { readonly [K in keyof S]: ColumnResult<S[K]> };
+
+/**
+ * A problem found in a data file.
+ */
+export type DataIssue = {
+  /** 1-based row number (the CSV header is not counted). */
+  row: number;
+  column: string;
+  message: string;
+};
+
+/**
+ * Thrown by {@link loadData} when rows do not match the schema. Lists
+ * every problem at once.
+ */
+export class DataValidationError extends Error {
+  readonly issues: readonly DataIssue[];
+
+  constructor(readonly file: string, issues: DataIssue[]) {
+    super(
+      `Invalid test data in ${file} (${issues.length} issue(s)):\n` +
+      issues.map(i => `  - row ${i.row}, ${i.column}: ${i.message}`).join("\n")
+    );
+    this.name = "DataValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Options of {@link loadData} and {@link resolveDataFile}.
+ */
+export type DataOptions = {
+  /** Root folder of the data files. Defaults to `TEST_DATA_DIR`, else `tests/data`. */
+  dir?: string;
+  /**
+   * Profile whose folder is searched first. Defaults to the active env
+   * profile (`TEST_ENV`); `null` only reads the shared files.
+   */
+  profile?: string | null;
+};
+
+/**
+ * Find a data file, preferring the active profile's copy:
+ * `<dir>/<profile>/<file>`, then `<dir>/<file>`.
+ *
+ * @throws If neither exists.
+ */
+export function resolveDataFile(file: string, opts: DataOptions = {}): string {
+  const dir = opts.dir ?? Env.getString("TEST_DATA_DIR", false) ?? "tests/data";
+  const profile = opts.profile === undefined ? Env.profile : opts.profile;
+  const candidates = [...(profile ? [path.join(dir, profile, file)] : []), path.join(dir, file)];
+  const found = candidates.find(f => fs.existsSync(f));
+  if (!found) throw new Error(`Data: ${file} not found (looked in ${candidates.join(", ")})`);
+  return found;
+}
+
+/**
+ * Load the rows of a JSON, YAML or CSV data file and validate them against
+ * `schema`. The format is chosen by extension (`.json`, `.yaml`/`.yml`,
+ * `.csv`); JSON and YAML files hold an array of objects.
+ *
+ * The file is looked up per profile (see {@link resolveDataFile}), so e.g.
+ * `tests/data/staging/users.yaml` replaces `tests/data/users.yaml` when
+ * `TEST_ENV=staging`.
+ *
+ * @typeParam S - The schema declaration (inferred, keep it a literal).
+ * @returns The typed rows, in file order.
+ * @throws {DataValidationError} If any row does not match the schema.
+ *
+ * @example
+ * ```ts
+ * const cases = loadData("login-failures.yaml", {
+ *   case:     { type: "string" },
+ *   username: { type: "string" },
+ *   password: { type: "string", default: "" },
+ *   message:  { type: "string" },
+ * });
+ * ```
+ */
+export function loadData<const S extends DataSchema>(file: string, schema: S, opts: DataOptions = {}): DataRow<S>[] {
+  const resolved = resolveDataFile(file, opts);
+  const rows = readRows(resolved);
+  const issues: DataIssue[] = [];
+
+  const result = rows.map((raw, i) => {
+    const row: Record<string, unknown> = {};
+    for (const column of Object.keys(raw)) {
+      if (!(column in schema)) issues.push({ row: i + 1, column, message: "Not declared in the schema" });
+    }
+    for (const [column, decl] of Object.entries(schema)) {
+      try {
+        row[column] = readColumn(raw[column], decl);
+      } catch (e) {
+        const message = (e as Error).message;
+        issues.push({ row: i + 1, column, message: decl.description ? `${message} (${decl.description})` : message });
+      }
+    }
+    return Object.freeze(row) as DataRow<S>;
+  });
+
+  if (issues.length) throw new DataValidationError(resolved, issues);
+  return result;
+}
+
+/**
+ * Parse a data file into raw rows.
+ */
+function readRows(file: string): Record<string, unknown>[] {
+  const text = fs.readFileSync(file, "utf8");
+  let data: unknown;
+  try {
+    switch (path.extname(file).toLowerCase()) {
+      case ".json":
+        data = JSON.parse(text);
+        break;
+      case ".yaml":
+      case ".yml":
+        data = YAML.parse(text);
+        break;
+      case ".csv":
+        data = parseCsv(text);
+        break;
+      default:
+        throw new Error("Unsupported format, use .json, .yaml, .yml or .csv");
+    }
+  } catch (e) {
+    throw new Error(`Data: Cannot read ${file}: ${(e as Error).message}`);
+  }
+
+  if (!Array.isArray(data) || data.some(row => typeof row !== "object" || row === null || Array.isArray(row))) {
+    throw new Error(`Data: ${file} must hold an array of objects (one per row)`);
+  }
+  return data;
+}
+
+/**
+ * Check and convert one value against its column declaration.
+ */
+function readColumn(value: unknown, decl: DataColumn): unknown {
+  if (value === undefined || value === null || value === "") {
+    if (decl.default !== undefined) return decl.default;
+    if (decl.required ?? true) throw new Error("Missing value");
+    return undefined;
+  }
+
+  switch (decl.type) {
+    case "string": {
+      if (typeof value !== "string" && typeof value !== "number") throw new Error(`Expected a string, got ${JSON.stringify(value)}`);
+      const text = String(value);
+      if (decl.pattern && !decl.pattern.test(text)) throw new Error(`"${text}" does not match ${decl.pattern}`);
+      return text;
+    }
+    case "number": {
+      const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof n !== "number" || !Number.isFinite(n)) throw new Error(`Expected a number, got ${JSON.stringify(value)}`);
+      return n;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      const v = String(value).trim().toLowerCase();
+      if (["true", "1", "yes", "on"].includes(v)) return true;
+      if (["false", "0", "no", "off"].includes(v)) return false;
+      throw new Error(`Expected a boolean, got ${JSON.stringify(value)}`);
+    }
+    case "enum": {
+      if (!decl.values.includes(String(value))) {
+        throw new Error(`Expected one of ${decl.values.join(", ")}, got ${JSON.stringify(value)}`);
+      }
+      return String(value);
+    }
+    case "list": {
+      if (Array.isArray(value)) return value.map(String);
+      if (typeof value !== "string") throw new Error(`Expected a list, got ${JSON.stringify(value)}`);
+      return value.split(decl.sep ?? ",").map(s => s.trim()).filter(Boolean);
+    }
+  }
+}
@@ -0,0 +1,426 @@
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import { Env, EnvField } from "./env";
+
+/**
+ * Type of a declared variable, as far as the doctor can tell from the source.
+ */
+type VarType = EnvField["type"] | "otpauth";
+
+/**
+ * Everything known about one environment variable after scanning the source.
+ */
+export type DeclaredVar = {
+  key: string;
+  type: VarType;
+  required: boolean;
+  secret: boolean;
+  description?: string;
+  default?: string;
+  /** Allowed values for `enum` schema fields. */
+  values?: string[];
+  /** Files (relative to the project root) referencing the variable. */
+  usages: string[];
+};
+
+/**
+ * Result of checking a declared variable against the current environment.
+ */
+export type VarStatus = "present" | "missing" | "optional" | "invalid";
+
+/**
+ * Maps `Env` getter names to the type they parse.
+ */
+const GETTER_TYPES: Record<string, VarType> = {
+  get: "string",
+  getString: "string",
+  getNumber: "number",
+  getBoolean: "boolean",
+  getEnum: "enum",
+  getList: "list",
+  getJson: "json",
+  getUrl: "url",
+  getDuration: "duration",
+  getPort: "port",
+  getRegex: "regex",
+  getDate: "date",
+  has: "string",
+};
+
+/**
+ * Directories and files scanned by default, relative to the project root.
+ */
+const DEFAULT_ROOTS = ["framework", "tests", "playwright.config.ts"];
+
+/**
+ * Directories never scanned: dependencies, and the framework's own unit
+ * tests (their variables are fixtures, not project configuration).
+ */
+const EXCLUDED_DIRS = ["node_modules", path.join("tests", "unit")];
+
+/**
+ * Remove comments so JSDoc examples are not mistaken for real declarations.
+ * Only whole-line `//` comments are stripped, to keep URLs in strings intact.
+ */
+function stripComments(source: string): string {
+  return source.replace(/\/\*[\s\S]*?\*\//g, "").replace(/^\s*\/\/.*$/gm, "");
+}
+
+/**
+ * Return the text between the bracket at `start` and its matching closing bracket.
+ */
+function balanced(source: string, start: number): string {
+  const open = source[start];
+  const close = open === "{" ? "}" : open === "(" ? ")" : "]";
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === open) depth++;
+    else if (source[i] === close && --depth === 0) return source.slice(start + 1, i);
+  }
+  return source.slice(start + 1);
+}
+
+/**
+ * Extract all string literal arguments from an argument list.
+ */
+function stringArgs(args: string): string[] {
+  return [...args.matchAll(/["'`]([A-Za-z_][A-Za-z0-9_]*)["'`]/g)].map(m => m[1]);
+}
+
+/**
+ * Recursively list `.ts` files under the given roots.
+ */
+function listSources(root: string, entries: string[]): string[] {
+  const files: string[] = [];
+  const walk = (p: string) => {
+    if (!fs.existsSync(p)) return;
+    if (fs.statSync(p).isDirectory()) {
+      const rel = path.relative(root, p);
+      if (EXCLUDED_DIRS.some(dir => rel === dir || path.basename(p) === dir)) return;
+      for (const child of fs.readdirSync(p)) walk(path.join(p, child));
+    } else if (p.endsWith(".ts")) {
+      files.push(p);
+    }
+  };
+  for (const entry of entries) walk(path.join(root, entry));
+  return files;
+}
+
+/**
+ * Text written for a declared default value.
+ */
+function formatDefault(field: EnvField): string | undefined {
+  const value: unknown = field.default;
+  if (value === undefined) return undefined;
+  if (value instanceof RegExp) return value.source;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join(field.type === "list" ? field.sep ?? "," : ",");
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Modules declaring the variables read across the framework through
+ * `Env.declare`, relative to the project root. Only these are loaded by the
+ * doctor: loading any other module would run its side effects.
+ */
+const DECLARATION_MODULES = [path.join("framework", "fixtures", "config.ts")];
+
+/**
+ * Load the declaration modules, so their declarations are in
+ * {@link Env.declarations} (values such as `values: LOG_LEVELS` cannot be
+ * read from the source). Modules missing under `root` are skipped.
+ *
+ * @returns The modules that could not be loaded, with the error.
+ */
+function loadDeclarationModules(root: string, modules: readonly string[]): string[] {
+  const failed: string[] = [];
+  for (const module of modules) {
+    const file = path.resolve(root, module);
+    if (!fs.existsSync(file)) continue;
+    try {
+      require(file);
+    } catch (e) {
+      failed.push(`${module}: ${(e as Error).message}`);
+    }
+  }
+  return failed;
+}
+
+/**
+ * Scan the source for environment variable declarations:
+ * - `Env.schema({...})` / `Env.declare({...})` fields (type, required,
+ *   default, description, secret), completed with what the declaration
+ *   modules registered in {@link Env.declarations} once loaded,
+ * - `Env.require(...)` keys,
+ * - `Env.get*("KEY", ...)` / `Env.has("KEY")` lookups,
+ * - `Env.secret(...)` markers and `OTP.fromEnv("KEY")` URIs.
+ *
+ * @param root - Project root. Defaults to `process.cwd()`.
+ * @param entries - Files or directories to scan, relative to `root`.
+ * @param modules - Declaration modules to load, relative to `root`.
+ * @returns The declared variables, sorted by name.
+ */
+export function scanDeclarations(root = process.cwd(), entries = DEFAULT_ROOTS, modules = DECLARATION_MODULES): DeclaredVar[] {
+  const files = listSources(root, entries);
+  const vars = new Map<string, DeclaredVar>();
+  const declare = (key: string, file: string, info: Partial<DeclaredVar>) => {
+    const current = vars.get(key) ?? { key, type: "string", required: false, secret: false, usages: [] };
+    const merged: DeclaredVar = { ...current, ...info, usages: current.usages };
+    merged.required = current.required || !!info.required;
+    merged.secret = current.secret || !!info.secret;
+    if (!merged.usages.includes(file)) merged.usages.push(file);
+    vars.set(key, merged);
+  };
+
+  for (const file of files) {
+    const rel = path.relative(root, file);
+    const source = stripComments(fs.readFileSync(file, "utf8"));
+
+    for (const m of source.matchAll(/Env\.(?:schema|declare)\s*\(\s*\{/g)) {
+      const body = balanced(source, m.index! + m[0].length - 1);
+      for (const field of body.matchAll(/([A-Za-z_][A-Za-z0-9_]*)\s*:\s*\{/g)) {
+        const decl = balanced(body, field.index! + field[0].length - 1);
+        const type = /type\s*:\s*["'](\w+)["']/.exec(decl)?.[1];
+        if (!type) continue;
+        const def = /default\s*:\s*(["'`])(.*?)\1|default\s*:\s*([\w.-]+)/.exec(decl);
+        const values = /values\s*:\s*\[([^\]]*)\]/.exec(decl);
+        const hasDefault = /default\s*:/.test(decl);
+        declare(field[1], rel, {
+          type: type as VarType,
+          required: /required\s*:\s*false/.test(decl) ? false : /required\s*:\s*true/.test(decl) || !hasDefault,
+          secret: /secret\s*:\s*true/.test(decl),
+          description: /description\s*:\s*(["'`])(.*?)\1/.exec(decl)?.[2],
+          default: def ? def[2] ?? def[3] : undefined,
+          values: values ? [...values[1].matchAll(/["'`]([^"'`]*)["'`]/g)].map(v => v[1]) : undefined,
+        });
+      }
+    }
+
+    for (const m of source.matchAll(/Env\.require\s*\(/g)) {
+      for (const key of stringArgs(balanced(source, m.index! + m[0].length - 1))) {
+        declare(key, rel, { required: true });
+      }
+    }
+
+    for (const m of source.matchAll(/Env\.secret\s*\(/g)) {
+      for (const key of stringArgs(balanced(source, m.index! + m[0].length - 1))) {
+        declare(key, rel, { secret: true });
+      }
+    }
+
+    for (const m of source.matchAll(/Env\.(\w+)\s*\(\s*["'`]([A-Za-z_][A-Za-z0-9_]*)["'`]/g)) {
+      const type = GETTER_TYPES[m[1]];
+      if (!type) continue;
+      // `required` is the first boolean argument of every getter (or an option of `get`).
+      const args = balanced(source, source.indexOf("(", m.index!));
+      const required = /required\s*:\s*false/.test(args) ? "false" : /\b(true|false)\b/.exec(args)?.[1];
+      const optional = m[1] === "has" || required === "false";
+      declare(m[2], rel, { type: vars.get(m[2])?.type ?? type, required: !optional });
+    }
+
+    for (const m of source.matchAll(/OTP\.fromEnv\s*\(\s*["'`]([A-Za-z_][A-Za-z0-9_]*)["'`]/g)) {
+      declare(m[1], rel, { type: "otpauth", required: true, secret: true });
+    }
+  }
+
+  for (const failure of loadDeclarationModules(root, modules)) {
+    console.warn(`env doctor: could not load declarations from ${failure}`);
+  }
+  for (const [key, field] of Env.declarations) {
+    const current = vars.get(key);
+    vars.set(key, {
+      key,
+      type: field.type,
+      required: !!current?.required || (field.required ?? field.default === undefined),
+      secret: !!current?.secret || !!field.secret,
+      description: field.description ?? current?.description,
+      default: formatDefault(field) ?? current?.default,
+      values: field.type === "enum" ? [...field.values] : current?.values,
+      usages: current?.usages ?? [],
+    });
+  }
+
+  return [...vars.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Check a declared variable against the current environment by parsing it
+ * with the matching `Env` getter.
+ *
+ * @returns The status and, for invalid values, the parser error message.
+ */
+export function checkVar(v: DeclaredVar): { status: VarStatus; error?: string } {
+  if (!Env.has(v.key)) return { status: v.required ? "missing" : "optional" };
+  try {
+    switch (v.type) {
+      case "number": Env.getNumber(v.key); break;
+      case "boolean": Env.getBoolean(v.key); break;
+      case "enum": v.values ? Env.getEnum(v.key, v.values) : Env.getString(v.key); break;
+      case "list": Env.getList(v.key); break;
+      case "json": Env.getJson(v.key); break;
+      case "url": Env.getUrl(v.key, true, undefined, ["http:", "https:", "ws:", "wss:", "file:"]); break;
+      case "duration": Env.getDuration(v.key); break;
+      case "port": Env.getPort(v.key); break;
+      case "regex": Env.getRegex(v.key); break;
+      case "date": Env.getDate(v.key); break;
+      case "otpauth":
+        if (!Env.getString(v.key).startsWith("otpauth://")) throw new Error(`${v.key} is not an otpauth:// URI`);
+        break;
+      default: Env.getString(v.key);
+    }
+    return { status: "present" };
+  } catch (e) {
+    return { status: "invalid", error: (e as Error).message };
+  }
+}
+
+/**
+ * Safe placeholder written to `.env.example` for a variable.
+ * Secrets never get a value; other variables get their default, optional
+ * ones without a default stay empty (an example value would change
+ * behaviour once copied), required ones get a typed example.
+ */
+function placeholder(v: DeclaredVar): string {
+  if (v.secret) return "";
+  if (v.default !== undefined) return v.default;
+  if (!v.required) return "";
+  switch (v.type) {
+    case "number": return "0";
+    case "boolean": return "false";
+    case "enum": return v.values?.[0] ?? "";
+    case "list": return "a,b";
+    case "json": return "{}";
+    case "url": return "https://example.com";
+    case "duration": return "30s";
+    case "port": return "3000";
+    case "regex": return ".*";
+    case "date": return new Date(0).toISOString();
+    case "otpauth": return "otpauth://totp/Issuer:user?secret=BASE32SECRET&period=30";
+    default: return "";
+  }
+}
+
+/**
+ * Render the comment + assignment lines for one variable in `.env.example`.
+ */
+function exampleEntry(v: DeclaredVar): string {
+  const traits = [v.type, v.required ? "required" : "optional"];
+  if (v.secret) traits.push("secret");
+  if (v.values) traits.push(`one of: ${v.values.join(", ")}`);
+  const description = v.description ? `${v.description} ` : "";
+  return `# ${description}(${traits.join(", ")})\n${v.key}=${placeholder(v)}\n`;
+}
+
+/**
+ * Header of a generated `.env.example`.
+ */
+const EXAMPLE_HEADER =
+  "# Environment variables used by the test framework.\n" +
+  "# Copy to .env (or .env.<profile>) and fill in the values.\n" +
+  "# Generated by `npm run env:doctor -- --example`.\n";
+
+/**
+ * Line separating the generated section of `.env.example` from the lines
+ * added by hand, which are kept when the file is regenerated.
+ */
+const EXAMPLE_USER_MARKER = "# Added by hand (kept by env doctor):";
+
+/**
+ * Lines of an existing `.env.example` that were added by hand: everything
+ * after {@link EXAMPLE_USER_MARKER} or, in a file without it, everything
+ * but the generated header. Assignments of declared keys are dropped, with
+ * the comment lines right above them, since the declared section replaces them.
+ */
+function userLines(existing: string, declared: Set<string>): string[] {
+  const header = new Set(EXAMPLE_HEADER.split("\n").filter(Boolean));
+  let lines = existing.split(/\r?\n/);
+  const marker = lines.indexOf(EXAMPLE_USER_MARKER);
+  lines = marker >= 0 ? lines.slice(marker + 1) : lines.filter(line => !header.has(line));
+
+  const kept: string[] = [];
+  let comments: string[] = [];
+  for (const line of lines) {
+    if (line.trim().startsWith("#")) {
+      comments.push(line);
+      continue;
+    }
+    const key = /^\s*(?:export\s+)?([\w.-]+)\s*=/.exec(line)?.[1];
+    if (!key || !declared.has(key)) kept.push(...comments, line);
+    comments = [];
+  }
+  kept.push(...comments);
+  return kept;
+}
+
+/**
+ * Create or regenerate `.env.example`: the declared variables are written
+ * from scratch (so changed descriptions, defaults and removed variables are
+ * picked up), followed by the lines added by hand (see {@link userLines}).
+ *
+ * @param vars - Declared variables (see {@link scanDeclarations}).
+ * @param file - Path of the example file.
+ * @returns The declared keys the file did not mention yet.
+ */
+export function writeEnvExample(vars: DeclaredVar[], file: string): string[] {
+  const existing = fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "";
+  const known = dotenv.parse(existing);
+  const user = userLines(existing, new Set(vars.map(v => v.key))).join("\n").replace(/\n{3,}/g, "\n\n").trim();
+
+  let content = `${EXAMPLE_HEADER}\n${vars.map(exampleEntry).join("\n")}`;
+  if (user) content += `\n${EXAMPLE_USER_MARKER}\n${user}\n`;
+  fs.writeFileSync(file, content);
+  return vars.filter(v => !(v.key in known)).map(v => v.key);
+}
+
+/**
+ * Render rows as a plain text table with padded columns.
+ */
+function table(rows: string[][]): string {
+  const widths = rows[0].map((_, i) => Math.max(...rows.map(r => r[i].length)));
+  return rows.map(r => r.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd()).join("\n");
+}
+
+/**
+ * CLI entry point.
+ *
+ * ```
+ * npm run env:doctor                 # print the report, exit 1 on problems
+ * npm run env:doctor -- --example    # also (re)generate .env.example
+ * ```
+ */
+function main(argv: string[]): number {
+  const root = process.cwd();
+  const vars = scanDeclarations(root);
+  const rows = [["KEY", "TYPE", "REQUIRED", "STATUS", "SOURCE", "DESCRIPTION / USED IN"]];
+  let problems = 0;
+
+  for (const v of vars) {
+    const { status, error } = checkVar(v);
+    if (status === "missing" || status === "invalid") problems++;
+    rows.push([
+      v.key,
+      v.secret ? `${v.type} (secret)` : v.type,
+      v.required ? "yes" : "no",
+      status.toUpperCase(),
+      Env.source(v.key) ?? "-",
+      error ?? v.description ?? v.usages.join(", "),
+    ]);
+  }
+
+  console.log(`Profile: ${Env.profile ?? "(none)"}   Files: ${Env.files.join(", ") || "(none)"}\n`);
+  console.log(table(rows));
+  console.log(`\n${vars.length} variable(s), ${problems} problem(s).`);
+
+  if (argv.includes("--example")) {
+    const file = path.join(root, ".env.example");
+    const added = writeEnvExample(vars, file);
+    console.log(`\nRegenerated .env.example${added.length ? `, added: ${added.join(", ")}` : ""}`);
+  }
+
+  return problems ? 1 : 0;
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -1,6 +1,12 @@
-import * as dotenv from "dotenv";
+import * as fs from "fs";
+import { Secrets } from "../security/secrets";
+import { loadEnv, LoadedEnv, PROCESS_ENV_SOURCE, VAULT_SUFFIX } from "./loader";
+import { VAULT_KEY_VAR } from "./vault";
 
-dotenv.config();
+/**
+ * Source label reported by {@link Env.source} for overridden variables.
+ */
+const OVERRIDE_SOURCE = "override";
 
 /**
  * Common options for environment variable retrieval.
@@ -41,19 +47,303 @@ type ParsedOpts<T> = BaseOpts & {
  */
 type StringOpts = BaseOpts;
 
-export class Env { 
+/**
+ * Constraints applied by {@link Env.getNumber} after parsing.
+ */
+export type NumberConstraints = {
+  /** Smallest accepted value (inclusive). */
+  min?: number;
+  /** Largest accepted value (inclusive). */
+  max?: number;
+  /** Whether the value must be an integer. Defaults to `false`. */
+  integer?: boolean;
+};
+
+/**
+ * Milliseconds per duration unit accepted by {@link parseDuration}.
+ */
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parse a human readable duration into milliseconds.
+ *
+ * Accepts a plain number of milliseconds (`"1500"`), a single unit
+ * (`"1500ms"`, `"30s"`, `"2m"`, `"1h"`, `"1d"`) or a combination
+ * (`"1m30s"`). Fractions are allowed (`"1.5s"`).
+ *
+ * @returns The duration in milliseconds, or `undefined` if `text` is not a valid duration.
+ */
+export function parseDuration(text: string): number | undefined {
+  const value = text.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (!/^(\d+(\.\d+)?(ms|s|m|h|d))+$/.test(value)) return undefined;
+
+  let total = 0;
+  for (const [, amount, , unit] of value.matchAll(/(\d+(\.\d+)?)(ms|s|m|h|d)/g)) {
+    total += Number(amount) * DURATION_UNITS[unit];
+  }
+  return total;
+}
+
+/**
+ * Common properties of a single variable declared in {@link Env.schema}.
+ */
+type FieldBase<T> = {
+  /**
+   * Whether the variable must exist.
+   * Defaults to `true` unless a `default` is provided.
+   */
+  required?: boolean;
+  /**
+   * Value used when the variable is missing or empty.
+   */
+  default?: T;
+  /**
+   * Human readable description, included in validation errors.
+   */
+  description?: string;
+  /**
+   * Whether the value is secret and must be masked in output
+   * (see {@link Env.secret}). Defaults to `false`.
+   */
+  secret?: boolean;
+};
+
+/**
+ * Declaration of a single environment variable for {@link Env.schema}.
+ *
+ * - `string`  → raw string value.
+ * - `number`  → parsed with {@link Env.getNumber}.
+ * - `boolean` → parsed with {@link Env.getBoolean}.
+ * - `enum`    → one of `values`, parsed with {@link Env.getEnum}.
+ * - `list`    → split on `sep` (default `","`), parsed with {@link Env.getList}.
+ * - `json`    → parsed with {@link Env.getJson}, then refined by `parse` if given.
+ * - `url`     → parsed with {@link Env.getUrl}, limited to `protocols` if given.
+ * - `duration` → milliseconds, parsed with {@link Env.getDuration}.
+ * - `port`    → parsed with {@link Env.getPort}.
+ * - `regex`   → parsed with {@link Env.getRegex}.
+ * - `date`    → parsed with {@link Env.getDate}.
+ *
+ * `number` fields also accept the {@link NumberConstraints} (`min`, `max`, `integer`).
+ */
+export type EnvField =
+  | (FieldBase<string> & { type: "string" })
+  | (FieldBase<number> & { type: "number" } & NumberConstraints)
+  | (FieldBase<boolean> & { type: "boolean" })
+  | (FieldBase<string> & { type: "enum"; values: readonly string[] })
+  | (FieldBase<string[]> & { type: "list"; sep?: string })
+  | (FieldBase<unknown> & { type: "json"; parse?: (value: unknown) => unknown })
+  | (FieldBase<string> & { type: "url"; protocols?: readonly string[] })
+  | (FieldBase<number> & { type: "duration" })
+  | (FieldBase<number> & { type: "port" })
+  | (FieldBase<RegExp> & { type: "regex"; flags?: string })
+  | (FieldBase<Date> & { type: "date" });
+
+/**
+ * A set of environment variable declarations, keyed by variable name.
+ */
+export type EnvSchema = Record<string, EnvField>;
+
+/**
+ * The value type produced by a single {@link EnvField}.
+ */
+type FieldValue<F> =
+  F extends { type: "string" } ? string :
+  F extends { type: "number" | "duration" | "port" } ? number :
+  F extends { type: "boolean" } ? boolean :
+  F extends { type: "enum"; values: readonly (infer V)[] } ? V :
+  F extends { type: "list" } ? string[] :
+  F extends { type: "json"; parse: (value: unknown) => infer R } ? R :
+  F extends { type: "json"; default: infer D } ? D :
+  F extends { type: "url" } ? URL :
+  F extends { type: "regex" } ? RegExp :
+  F extends { type: "date" } ? Date :
+  unknown;
+
+/**
+ * The value type of a field, widened with `undefined` when the field is
+ * optional and has no default.
+ */
+type FieldResult<F> =
+  F extends { default: {} | null } ? FieldValue<F> :
+  F extends { required: false } ? FieldValue<F> | undefined :
+  FieldValue<F>;
+
+/**
+ * The frozen, fully typed configuration object returned by {@link Env.schema}.
+ */
+export type EnvConfig<S extends EnvSchema> = { readonly [K in keyof S]: FieldResult<S[K]> };
+
+/**
+ * Outcome of a single environment lookup (see {@link Env.accesses}).
+ */
+export type EnvAccessOutcome = "found" | "defaulted" | "missing" | "error";
+
+/**
+ * One recorded environment lookup (see {@link Env.accesses}).
+ */
+export type EnvAccess = {
+  /** Name of the environment variable. */
+  key: string;
+  /** What happened when it was read. */
+  outcome: EnvAccessOutcome;
+  /** Where the value came from (see {@link Env.source}), if it was set. */
+  source?: string;
+  /** The raw or default value, masked for secret variables. */
+  value?: string;
+  /** The error message for `missing` and `error` outcomes. */
+  error?: string;
+  /** Time of the lookup (epoch ms). */
+  at: number;
+};
+
+/**
+ * A single problem found while validating an {@link EnvSchema}.
+ */
+export type EnvIssue = {
+  /** Name of the offending environment variable. */
+  key: string;
+  /** What went wrong (missing, malformed, ...). */
+  message: string;
+};
+
+/**
+ * Thrown by {@link Env.schema} when one or more variables are missing or malformed.
+ * All problems are collected in `issues` so they can be fixed in one go.
+ */
+export class EnvValidationError extends Error {
+  readonly issues: readonly EnvIssue[];
+
+  constructor(issues: EnvIssue[]) {
+    super(
+      `Invalid environment configuration (${issues.length} issue(s)):\n` +
+      issues.map(i => `  - ${i.key}: ${i.message}`).join("\n")
+    );
+    this.name = "EnvValidationError";
+    this.issues = issues;
+  }
+}
+
+export class Env {
+
+  /**
+   * Result of loading the layered `.env` files for the active profile
+   * (see {@link loadEnv}): values, their sources and the files read.
+   */
+  private static loaded: LoadedEnv = loadEnv();
 
   /**
    * Snapshot of environment variables at application startup.
    *
-   * Copies all keys from `process.env` into a plain object.
+   * Merges the real `process.env` with the layered `.env` files of the
+   * active profile into a plain object. Replaced by {@link Env.reload}.
    * This avoids surprises if `process.env` is mutated later on,
    * ensuring that lookups are consistent throughout the app.
    *
    * - Keys: environment variable names
    * - Values: string values or `undefined` if not set
    */
-  private static readonly cache: Record<string, string | undefined> = { ...process.env };
+  private static cache: Record<string, string | undefined> = { ...Env.loaded.values };
+
+  /**
+   * Stack of scoped overrides applied on top of {@link Env.cache}
+   * (see {@link Env.override}). Later layers win; a key mapped to
+   * `undefined` is treated as unset.
+   */
+  private static readonly overrides: Record<string, string | undefined>[] = [];
+
+  /**
+   * Names of environment variables whose values are secret
+   * (see {@link Env.secret}).
+   */
+  private static readonly secretKeys = new Set<string>();
+
+  /**
+   * Every lookup made through `Env`, in order (see {@link Env.accesses}).
+   */
+  private static readonly accessLog: EnvAccess[] = [];
+
+  /**
+   * Incremented whenever values may have changed, see {@link Env.revision}.
+   */
+  private static changes = 0;
+
+  /**
+   * Every field passed to {@link Env.declare} or {@link Env.schema}, by name.
+   */
+  private static readonly declared = new Map<string, EnvField>();
+
+  /**
+   * The vault key (wherever it was read from, `.env.vault.key` included)
+   * and the values decrypted from `.vault` files are secret by definition,
+   * in every process that loads them (runner and workers).
+   */
+  static {
+    this.secret(VAULT_KEY_VAR, ...this.vaultKeys());
+    Secrets.register(this.loaded.vaultKey);
+  }
+
+  /**
+   * The active environment profile selected by `TEST_ENV`
+   * (e.g. `"dev"`, `"staging"`, `"prod"`), or `undefined` if none is set.
+   *
+   * @example
+   * ```ts
+   * test.skip(Env.profile === "prod", "Destructive test, never on prod");
+   * ```
+   */
+  static get profile(): string | undefined {
+    return this.loaded.profile;
+  }
+
+  /**
+   * The `.env` files that were found and loaded, lowest precedence first
+   * (e.g. `[".env", ".env.staging"]`).
+   */
+  static get files(): readonly string[] {
+    return this.loaded.files;
+  }
+
+  /**
+   * Tell where the value of an environment variable came from.
+   *
+   * @param key - The name of the environment variable.
+   * @returns `"process.env"` for values from the real environment, the
+   *          `.env` file name that provided it (e.g. `".env.staging.local"`),
+   *          the secret file path when read through `<KEY>_FILE`,
+   *          `"override"` while a scoped override (see {@link Env.override}) applies,
+   *          or `undefined` if the variable is not set at all.
+   *
+   * @example
+   * ```ts
+   * Env.source("HEROKU_PWD"); // => ".env.staging.local"
+   * ```
+   */
+  static source(key: string): string | undefined {
+    if (this.isOverridden(key)) return OVERRIDE_SOURCE;
+    if (!this.lookup(key) && this.lookup(`${key}_FILE`)) return this.lookup(`${key}_FILE`);
+    return this.loaded.sources[key];
+  }
+
+  /**
+   * Check whether the active profile is one of the given names.
+   *
+   * @example
+   * ```ts
+   * if (Env.isProfile("staging", "prod")) {
+   *   // run against deployed environments only
+   * }
+   * ```
+   */
+  static isProfile(...names: string[]): boolean {
+    return this.profile !== undefined && names.includes(this.profile);
+  }
 
   /**
    * Get the raw value of an environment variable as a string.
@@ -116,12 +406,20 @@ export class Env {
 
     /**
      * Retrieve the raw value of the requested environment variable
-     * from the internal cache (a snapshot of `process.env` taken at startup).
+     * from the internal cache (a snapshot of `process.env` taken at startup),
+     * reading `<KEY>_FILE` and expanding `${OTHER_VAR}` references
+     * (see {@link Env.resolve}).
      *
      * - `key` is the name of the environment variable.
      * - The result may be a string (if set) or `undefined` (if not set).
      */
-    let raw = this.cache[key];
+    let raw: string | undefined;
+    try {
+      raw = this.resolve(key);
+    } catch (e) {
+      this.record(key, "error", undefined, e);
+      throw e;
+    }
 
     /**
      * If the environment variable is missing (`undefined`) or an empty string:
@@ -132,6 +430,7 @@ export class Env {
      * to a default instead of throwing an error.
      */
     if ((raw === undefined || raw === "") && !required) {
+      this.record(key, "defaulted", defVal);
       return defVal;
     }
 
@@ -144,7 +443,9 @@ export class Env {
      * run with incomplete configuration.
      */
     if (raw === undefined || raw === "") {
-      throw new Error(`Missing environment variable: ${key}`);
+      const error = new Error(`Missing environment variable: ${key}`);
+      this.record(key, "missing", undefined, error);
+      throw error;
     }
 
     /**
@@ -156,6 +457,13 @@ export class Env {
      */
     if (trim) raw = raw.trim();
 
+    /**
+     * If the variable is marked secret, register its value so it is masked
+     * in reports, logs and error messages from now on.
+     */
+    const secret = this.secretKeys.has(key);
+    if (secret) Secrets.register(raw);
+
     /**
      * If a custom `parser` function is provided in `opts`:
      * - Treat this as a `ParsedOpts<T>` case.
@@ -164,14 +472,135 @@ export class Env {
      *
      * This allows callers to transform the raw string into another type
      * (e.g., number, boolean, JSON object) with validation logic.
+     * Parser errors for secret variables are masked, since they usually
+     * quote the offending raw value.
      */
     if ("parser" in opts && typeof (opts as ParsedOpts<T>).parser === "function") {
-      return (opts as ParsedOpts<T>).parser(raw);
+      let parsed: T;
+      try {
+        parsed = (opts as ParsedOpts<T>).parser(raw);
+      } catch (e) {
+        const error = secret ? Secrets.maskError(e) : e;
+        this.record(key, "error", raw, error);
+        throw error;
+      }
+      this.record(key, "found", raw);
+      return parsed;
     }
 
+    this.record(key, "found", raw);
     return raw; 
   }
 
+  /**
+   * Append one lookup to the access log (see {@link Env.accesses}).
+   * Values of secret variables are never stored, other values are masked
+   * through {@link Secrets} in case they embed a secret.
+   */
+  private static record(key: string, outcome: EnvAccessOutcome, value?: unknown, error?: unknown): void {
+    const text = value === undefined ? undefined : typeof value === "string" ? value : JSON.stringify(value);
+    this.accessLog.push({
+      key,
+      outcome,
+      source: this.source(key),
+      value: text === undefined ? undefined : this.secretKeys.has(key) ? Secrets.MASK : Secrets.mask(text),
+      error: error === undefined ? undefined : Secrets.mask((error as Error).message ?? String(error)),
+      at: Date.now(),
+    });
+  }
+
+  /**
+   * Get the recorded environment lookups, oldest first.
+   *
+   * Every call to {@link Env.get} (and therefore every typed getter and
+   * {@link Env.schema}) and {@link Env.require} is recorded with its outcome:
+   * - `found`: the variable was set and parsed successfully,
+   * - `defaulted`: the variable was missing and the default was used,
+   * - `missing`: the variable was required but missing,
+   * - `error`: the value could not be resolved or parsed.
+   *
+   * @param since - Only return entries recorded after the first `since`
+   *   entries (see {@link Env.accessCount}). Defaults to `0` (everything).
+   *
+   * @example
+   * ```ts
+   * const start = Env.accessCount;
+   * await runScenario();
+   * const reads = Env.accesses(start);
+   * ```
+   */
+  static accesses(since = 0): readonly EnvAccess[] {
+    return this.accessLog.slice(since);
+  }
+
+  /**
+   * Number of lookups recorded so far, usable as a marker for {@link Env.accesses}.
+   */
+  static get accessCount(): number {
+    return this.accessLog.length;
+  }
+
+  /**
+   * A number that changes whenever variable values may have changed: on
+   * {@link Env.reload} and when a scoped override is added or removed.
+   *
+   * Lets hot paths cache a parsed value instead of reading it (and
+   * recording an access) on every call.
+   *
+   * @example
+   * ```ts
+   * if (cached?.revision !== Env.revision) cached = { revision: Env.revision, value: Env.getNumber("X") };
+   * ```
+   */
+  static get revision(): number {
+    return this.changes;
+  }
+
+  /**
+   * Names of the variables defined by the loaded `.env` files
+   * (whether or not the real environment overrides them).
+   */
+  static fileKeys(): string[] {
+    return Object.keys(this.loaded.fileValues);
+  }
+
+  /**
+   * Mark one or more environment variables as secret.
+   *
+   * Their values (current and on every later read) are registered with
+   * {@link Secrets}, so they are masked in reports, attachments, error
+   * messages and the framework logger.
+   *
+   * Call this from `playwright.config.ts` so both the runner (reporters)
+   * and the workers (tests) know about the secrets.
+   *
+   * @param keys - Names of the secret environment variables.
+   *
+   * @example
+   * ```ts
+   * Env.secret("HEROKU_PWD", "HEROKU_OTP_URI");
+   * ```
+   */
+  static secret(...keys: string[]): void {
+    for (const key of keys) {
+      this.secretKeys.add(key);
+      try {
+        Secrets.register(this.resolve(key));
+      } catch {
+        // Unresolvable values are registered (or reported) on first read.
+      }
+    }
+  }
+
+  /**
+   * Check whether an environment variable has been marked secret.
+   *
+   * @param key - The name of the environment variable.
+   */
+  static isSecret(key: string): boolean {
+    return this.secretKeys.has(key);
+  }
+
   /**
    * Ensure that one or more environment variables are present.
    *
@@ -190,6 +619,10 @@ export class Env {
    * configuration is missing.
    */
   static require(...keys: string[]): void {
+    for (const key of keys) {
+      if (this.has(key)) this.record(key, "found");
+      else this.record(key, "missing", undefined, new Error(`Missing environment variable: ${key}`));
+    }
     const missing = keys.filter(k => !this.has(k));
     if (missing.length) {
       throw new Error(`Missing required env var(s): ${missing.join(", ")}`);
@@ -201,7 +634,7 @@ export class Env {
    *
    * @param key - The name of the environment variable to look up.
    * @returns `true` if the variable is defined in the cache and not an empty string,
-   *          otherwise `false`.
+   *          or if a `<KEY>_FILE` path is set for it, otherwise `false`.
    *
    * @example
    * ```ts
@@ -211,10 +644,183 @@ export class Env {
    * ```
    */
   static has(key: string): boolean {
-    const v = this.cache[key];
+    const v = this.lookup(key) || this.lookup(`${key}_FILE`);
     return v !== undefined && v !== "";
   }
 
+  /**
+   * Look up the unprocessed value of a variable: the innermost scoped
+   * override if any, otherwise the startup snapshot.
+   */
+  private static lookup(key: string): string | undefined {
+    for (let i = this.overrides.length - 1; i >= 0; i--) {
+      if (key in this.overrides[i]) return this.overrides[i][key];
+    }
+    return this.cache[key];
+  }
+
+  /**
+   * Whether a scoped override currently applies to a variable.
+   */
+  private static isOverridden(key: string): boolean {
+    return this.overrides.some(layer => key in layer);
+  }
+
+  /**
+   * Override environment variables until the returned restore function is called.
+   *
+   * Overrides are layered on top of the startup snapshot and only affect
+   * lookups through `Env` (not `process.env`). A value of `undefined`
+   * makes the variable look unset. Layers may be restored in any order.
+   *
+   * Prefer {@link Env.withOverrides} or the `envOverrides` fixture, which
+   * restore automatically.
+   *
+   * @param values - Variables to override, keyed by name.
+   * @returns A function that removes this override layer again.
+   *
+   * @example
+   * ```ts
+   * const restore = Env.override({ HEROKU_PWD: "wrong-password" });
+   * try {
+   *   // ... negative login test
+   * } finally {
+   *   restore();
+   * }
+   * ```
+   */
+  static override(values: Record<string, string | number | boolean | undefined>): () => void {
+    const layer: Record<string, string | undefined> = {};
+    for (const [key, value] of Object.entries(values)) {
+      layer[key] = value === undefined ? undefined : String(value);
+    }
+    this.overrides.push(layer);
+    this.changes++;
+
+    return () => {
+      const index = this.overrides.indexOf(layer);
+      if (index === -1) return;
+      this.overrides.splice(index, 1);
+      this.changes++;
+    };
+  }
+
+  /**
+   * Run `fn` with some environment variables overridden, then restore them.
+   *
+   * Works with both synchronous and async functions: for a promise, the
+   * override is removed once it settles.
+   *
+   * @param values - Variables to override, keyed by name (see {@link Env.override}).
+   * @param fn - Code to run while the overrides apply.
+   * @returns Whatever `fn` returns.
+   *
+   * @example
+   * ```ts
+   * await Env.withOverrides({ FEATURE_NEW_LOGIN: "true" }, async () => {
+   *   await loginPage.signIn(account);
+   * });
+   * ```
+   */
+  static withOverrides<R>(values: Record<string, string | number | boolean | undefined>, fn: () => R): R {
+    const restore = this.override(values);
+    let result: R;
+    try {
+      result = fn();
+    } catch (e) {
+      restore();
+      throw e;
+    }
+    if (result instanceof Promise) {
+      return result.finally(restore) as R;
+    }
+    restore();
+    return result;
+  }
+
+  /**
+   * Re-read the layered `.env` files and `process.env`, replacing the
+   * startup snapshot (similar to `OTP.refresh()` clearing its cache).
+   *
+   * Active scoped overrides are kept. The active profile is re-evaluated
+   * from `TEST_ENV`, and values of secret variables (including every value
+   * from a `.vault` file) are registered again.
+   */
+  static reload(): void {
+    this.loaded = loadEnv();
+    this.cache = { ...this.loaded.values };
+    this.changes++;
+    this.secret(...this.secretKeys, ...this.vaultKeys());
+    Secrets.register(this.loaded.vaultKey);
+  }
+
+  /**
+   * Names of the variables whose value comes from an encrypted `.vault` file.
+   */
+  private static vaultKeys(): string[] {
+    return Object.keys(this.loaded.sources).filter(k => this.loaded.sources[k].endsWith(VAULT_SUFFIX));
+  }
+
+  /**
+   * Resolve the raw value of an environment variable before any parsing.
+   *
+   * - **File-based secrets**: if `KEY` is missing or empty but `KEY_FILE`
+   *   is set, the value is read from that file path (a single trailing
+   *   newline is dropped). This matches how container runners mount
+   *   credentials, e.g. `HEROKU_PWD_FILE=/run/secrets/heroku_pwd`.
+   * - **Interpolation**: `${OTHER_VAR}` references are expanded recursively,
+   *   `${OTHER_VAR:-fallback}` uses `fallback` when `OTHER_VAR` is missing,
+   *   and `\${...}` produces a literal `${...}`. Only values from `.env`
+   *   files and scoped overrides are expanded: a value set in the real
+   *   environment (CI secret, shell export) is used as is, since it may
+   *   legitimately contain `${` (e.g. a password `p@ss${word}`).
+   *
+   * @param key - Name of the environment variable.
+   * @param chain - Variables currently being expanded, for cycle detection.
+   *
+   * @returns The resolved string, or `undefined` if the variable is not set.
+   *
+   * @throws {Error}
+   * - If a reference is circular (e.g. `A=${B}`, `B=${A}`).
+   * - If a reference points to a missing variable without fallback.
+   * - If the `KEY_FILE` path cannot be read.
+   *
+   * @example
+   * ```ts
+   * // In .env: BASE_URL=https://id.heroku.com
+   * //          LOGIN_URL=${BASE_URL}/login
+   * Env.getString("LOGIN_URL"); // => "https://id.heroku.com/login"
+   * ```
+   */
+  private static resolve(key: string, chain: string[] = []): string | undefined {
+    let raw = this.lookup(key);
+
+    if (raw === undefined || raw === "") {
+      const fileKey = `${key}_FILE`;
+      const file = this.lookup(fileKey) ? this.resolve(fileKey, chain) : undefined;
+      if (!file) return raw;
+      try {
+        raw = fs.readFileSync(file.trim(), "utf8").replace(/\r?\n$/, "");
+      } catch (e) {
+        throw new Error(`Failed to read ${key} from ${fileKey} (${file.trim()}): ${(e as Error).message}`);
+      }
+      return raw;
+    }
+    if (!this.isOverridden(key) && this.loaded.sources[key] === PROCESS_ENV_SOURCE) return raw;
+
+    const path = [...chain, key];
+    return raw.replace(/\\?\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (match, ref: string, fallback?: string) => {
+      if (match.startsWith("\\")) return match.slice(1);
+      if (path.includes(ref)) {
+        throw new Error(`Circular reference in environment variable ${path[0]}: ${[...path, ref].join(" -> ")}`);
+      }
+      const value = this.resolve(ref, path);
+      if (value !== undefined && value !== "") return value;
+      if (fallback !== undefined) return fallback;
+      throw new Error(`Environment variable ${key} references missing variable \${${ref}}`);
+    });
+  }
+
   /**
    * Get an environment variable as a string.
    *
@@ -249,12 +855,16 @@ export class Env {
    *   Defaults to `true`. If `false`, the method will return `def` when the
    *   variable is missing or empty.
    * @param def - Default number to return if the variable is not required and missing.
+   * @param constraints - Optional bounds (see {@link NumberConstraints}):
+   *   - `min` / `max`: inclusive range the value must fall into.
+   *   - `integer`: whether fractional values are rejected.
    *
    * @returns The environment variable parsed as a number.
    *
    * @throws {Error}
    * - If `required = true` and the variable is missing or empty.
    * - If the variable exists but cannot be converted to a valid number.
+   * - If the number violates one of the `constraints`.
    *
    * @example
    * ```ts
@@ -263,15 +873,28 @@ export class Env {
    *
    * // Returns 3000 if CACHE_TTL is not set
    * const ttl = Env.getNumber("CACHE_TTL", false, 3000);
+   *
+   * // Will throw if WORKERS="1.5" or WORKERS="0"
+   * const workers = Env.getNumber("WORKERS", false, 2, { min: 1, max: 8, integer: true });
    * ```
    */
-  static getNumber(key: string, required = true, def?: number): number {
+  static getNumber(key: string, required = true, def?: number, constraints: NumberConstraints = {}): number {
+    const { min, max, integer = false } = constraints;
     return this.get<number>(key, {
       required,
       default: def,
       parser: (raw) => {
         const n = Number(raw);
         if (Number.isNaN(n)) throw new Error(`Environment variable ${key} is not a valid number: "${raw}"`);
+        if (integer && !Number.isInteger(n)) {
+          throw new Error(`Environment variable ${key} must be an integer, got "${raw}"`);
+        }
+        if (min !== undefined && n < min) {
+          throw new Error(`Environment variable ${key} must be >= ${min}, got ${n}`);
+        }
+        if (max !== undefined && n > max) {
+          throw new Error(`Environment variable ${key} must be <= ${max}, got ${n}`);
+        }
         return n;
       },
     });
@@ -470,4 +1093,331 @@ export class Env {
       },
     });
   }
+
+  /**
+   * Get an environment variable as a parsed URL.
+   *
+   * @param key - The name of the environment variable.
+   * @param required - Whether the variable must exist.
+   *   Defaults to `true`. If `false`, the method will return `def` when the
+   *   variable is missing or empty.
+   * @param def - Default URL string to return (parsed) if the variable is not required and missing.
+   * @param protocols - Accepted protocols, including the trailing colon.
+   *   Defaults to `["http:", "https:"]`.
+   *
+   * @returns The environment variable parsed as a `URL`.
+   *
+   * @throws {Error}
+   * - If `required = true` and the variable is missing or empty.
+   * - If the variable is not an absolute URL or uses another protocol.
+   *
+   * @example
+   * ```ts
+   * // In .env: BASE_URL=https://www.heroku.com
+   * const baseUrl = Env.getUrl("BASE_URL").href;
+   *
+   * // Only accept websockets
+   * const ws = Env.getUrl("WS_URL", true, undefined, ["ws:", "wss:"]);
+   * ```
+   */
+  static getUrl(
+    key: string,
+    required = true,
+    def?: string,
+    protocols: readonly string[] = ["http:", "https:"]
+  ): URL {
+    return this.get<URL>(key, {
+      required,
+      default: def === undefined ? undefined : new URL(def),
+      parser: (raw) => {
+        let url: URL;
+        try {
+          url = new URL(raw);
+        } catch {
+          throw new Error(`Environment variable ${key} is not a valid URL: "${raw}"`);
+        }
+        if (!protocols.includes(url.protocol)) {
+          throw new Error(
+            `Environment variable ${key} must use one of [${protocols.join(", ")}], got "${url.protocol}"`
+          );
+        }
+        return url;
+      },
+    });
+  }
+
+  /**
+   * Get an environment variable as a duration in milliseconds.
+   *
+   * Accepts a plain number of milliseconds (`"1500"`), a value with a unit
+   * (`"1500ms"`, `"30s"`, `"2m"`, `"1h"`, `"1d"`) or a combination (`"1m30s"`).
+   *
+   * @param key - The name of the environment variable.
+   * @param required - Whether the variable must exist.
+   *   Defaults to `true`. If `false`, the method will return `def` when the
+   *   variable is missing or empty.
+   * @param def - Default duration in milliseconds if the variable is not required and missing.
+   *
+   * @returns The duration in milliseconds.
+   *
+   * @throws {Error}
+   * - If `required = true` and the variable is missing or empty.
+   * - If the variable exists but is not a valid duration.
+   *
+   * @example
+   * ```ts
+   * // In .env: LOGIN_TIMEOUT=30s
+   * const timeout = Env.getDuration("LOGIN_TIMEOUT"); // => 30000
+   *
+   * // Returns 5000 if POLL_INTERVAL is not set
+   * const poll = Env.getDuration("POLL_INTERVAL", false, 5000);
+   * ```
+   */
+  static getDuration(key: string, required = true, def?: number): number {
+    return this.get<number>(key, {
+      required,
+      default: def,
+      parser: (raw) => {
+        const ms = parseDuration(raw);
+        if (ms === undefined) {
+          throw new Error(
+            `Environment variable ${key} is not a valid duration (e.g. "1500ms", "30s", "2m"): "${raw}"`
+          );
+        }
+        return ms;
+      },
+    });
+  }
+
+  /**
+   * Get an environment variable as a TCP port number (integer in 1–65535).
+   *
+   * @param key - The name of the environment variable.
+   * @param required - Whether the variable must exist.
+   *   Defaults to `true`. If `false`, the method will return `def` when the
+   *   variable is missing or empty.
+   * @param def - Default port to return if the variable is not required and missing.
+   *
+   * @returns The port number.
+   *
+   * @throws {Error}
+   * - If `required = true` and the variable is missing or empty.
+   * - If the variable is not an integer between 1 and 65535.
+   *
+   * @example
+   * ```ts
+   * const port = Env.getPort("MOCK_SERVER_PORT", false, 3000);
+   * ```
+   */
+  static getPort(key: string, required = true, def?: number): number {
+    return this.get<number>(key, {
+      required,
+      default: def,
+      parser: (raw) => {
+        const n = Number(raw);
+        if (!/^\d+$/.test(raw) || n < 1 || n > 65535) {
+          throw new Error(`Environment variable ${key} is not a valid port (1-65535): "${raw}"`);
+        }
+        return n;
+      },
+    });
+  }
+
+  /**
+   * Get an environment variable as a regular expression.
+   *
+   * The value is either a plain pattern (compiled with `flags`) or a
+   * literal of the form `/pattern/flags`, whose own flags take precedence.
+   *
+   * @param key - The name of the environment variable.
+   * @param required - Whether the variable must exist.
+   *   Defaults to `true`. If `false`, the method will return `def` when the
+   *   variable is missing or empty.
+   * @param def - Default expression to return if the variable is not required and missing.
+   * @param flags - Flags used for plain patterns. Defaults to none.
+   *
+   * @returns The compiled regular expression.
+   *
+   * @throws {Error}
+   * - If `required = true` and the variable is missing or empty.
+   * - If the variable is not a valid regular expression.
+   *
+   * @example
+   * ```ts
+   * // In .env: OTP_MAIL_PATTERN=/code: (\d{6})/i
+   * const pattern = Env.getRegex("OTP_MAIL_PATTERN");
+   * ```
+   */
+  static getRegex(key: string, required = true, def?: RegExp, flags = ""): RegExp {
+    return this.get<RegExp>(key, {
+      required,
+      default: def,
+      parser: (raw) => {
+        const literal = /^\/(.*)\/([a-z]*)$/s.exec(raw);
+        try {
+          return literal ? new RegExp(literal[1], literal[2]) : new RegExp(raw, flags);
+        } catch (e) {
+          throw new Error(`Environment variable ${key} is not a valid regular expression: ${(e as Error).message}`);
+        }
+      },
+    });
+  }
+
+  /**
+   * Get an environment variable as a date.
+   *
+   * Accepts an ISO 8601 string (`"2025-01-31"`, `"2025-01-31T08:00:00Z"`)
+   * or a Unix timestamp in milliseconds (`"1735632000000"`).
+   *
+   * @param key - The name of the environment variable.
+   * @param required - Whether the variable must exist.
+   *   Defaults to `true`. If `false`, the method will return `def` when the
+   *   variable is missing or empty.
+   * @param def - Default date to return if the variable is not required and missing.
+   *
+   * @returns The parsed `Date`.
+   *
+   * @throws {Error}
+   * - If `required = true` and the variable is missing or empty.
+   * - If the variable is not a valid date.
+   *
+   * @example
+   * ```ts
+   * // Freeze the browser clock at a fixed instant
+   * const now = Env.getDate("FIXED_NOW", false, new Date());
+   * ```
+   */
+  static getDate(key: string, required = true, def?: Date): Date {
+    return this.get<Date>(key, {
+      required,
+      default: def,
+      parser: (raw) => {
+        const date = /^-?\d+$/.test(raw) ? new Date(Number(raw)) : new Date(raw);
+        if (Number.isNaN(date.getTime())) {
+          throw new Error(`Environment variable ${key} is not a valid date (ISO 8601 or epoch ms): "${raw}"`);
+        }
+        return date;
+      },
+    });
+  }
+
+  /**
+   * Register environment variable declarations without reading them.
+   *
+   * Modules declare the variables they read at load time, so tooling such
+   * as the env doctor can list them with their type, allowed values,
+   * default and description, even when those are not literals in the
+   * source (e.g. `values: LOG_LEVELS`). {@link Env.schema} registers its
+   * fields as well.
+   *
+   * @param schema - Variable declarations keyed by name (see {@link EnvField}).
+   * @returns `schema` itself, typed as given, to pass to {@link Env.schema} later.
+   *
+   * @example
+   * ```ts
+   * export const MAIL_SCHEMA = Env.declare({
+   *   SMTP_CATCHER_PORT: { type: "port", required: false, description: "First port of the SMTP catchers" },
+   * });
+   * const { SMTP_CATCHER_PORT } = Env.schema(MAIL_SCHEMA);
+   * ```
+   */
+  static declare<const S extends EnvSchema>(schema: S): S {
+    for (const [key, field] of Object.entries(schema)) {
+      this.declared.set(key, { ...this.declared.get(key), ...field } as EnvField);
+    }
+    return schema;
+  }
+
+  /**
+   * The variables registered through {@link Env.declare} and {@link Env.schema}, by name.
+   */
+  static get declarations(): ReadonlyMap<string, EnvField> {
+    return this.declared;
+  }
+
+  /**
+   * Declare and validate a whole set of environment variables in one pass.
+   *
+   * Every field is read through the matching typed getter. Instead of
+   * failing on the first problem, all missing or malformed variables are
+   * collected and reported together in a single {@link EnvValidationError}.
+   *
+   * @typeParam S - The schema declaration (inferred, keep it a literal).
+   * @param schema - Variable declarations keyed by name (see {@link EnvField}).
+   *
+   * @returns A frozen object with one typed property per declared variable.
+   *
+   * @throws {EnvValidationError} If any variable is missing or invalid.
+   *
+   * @example
+   * ```ts
+   * const config = Env.schema({
+   *   HEROKU_USERNAME: { type: "string", description: "Heroku login email" },
+   *   HEROKU_PWD:      { type: "string", description: "Heroku password" },
+   *   TIMEOUT_MS:      { type: "number", default: 30000 },
+   *   BROWSER:         { type: "enum", values: ["chrome", "firefox"], default: "chrome" },
+   *   DEBUG:           { type: "boolean", required: false },
+   * });
+   *
+   * config.TIMEOUT_MS; // number
+   * config.BROWSER;    // "chrome" | "firefox"
+   * config.DEBUG;      // boolean | undefined
+   * ```
+   */
+  static schema<const S extends EnvSchema>(schema: S): EnvConfig<S> {
+    const issues: EnvIssue[] = [];
+    const config: Record<string, unknown> = {};
+    this.declare(schema);
+
+    for (const [key, field] of Object.entries(schema)) {
+      if (field.secret) this.secret(key);
+      try {
+        config[key] = this.readField(key, field);
+      } catch (e) {
+        const message = (e as Error).message;
+        issues.push({
+          key,
+          message: field.description ? `${message} (${field.description})` : message,
+        });
+      }
+    }
+
+    if (issues.length) throw new EnvValidationError(issues);
+    return Object.freeze(config) as EnvConfig<S>;
+  }
+
+  /**
+   * Read a single schema field through the getter matching its `type`.
+   */
+  private static readField(key: string, field: EnvField): unknown {
+    const required = field.required ?? field.default === undefined;
+
+    switch (field.type) {
+      case "string":
+        return this.getString(key, required, field.default);
+      case "number":
+        return this.getNumber(key, required, field.default, field);
+      case "boolean":
+        return this.getBoolean(key, required, field.default);
+      case "enum":
+        return this.getEnum(key, field.values, required, field.default);
+      case "list":
+        return this.getList(key, field.sep, required, undefined, field.default);
+      case "json": {
+        if (!this.has(key)) return this.getJson(key, required, field.default);
+        const value = this.getJson<unknown>(key, required);
+        return field.parse ? field.parse(value) : value;
+      }
+      case "url":
+        return this.getUrl(key, required, field.default, field.protocols);
+      case "duration":
+        return this.getDuration(key, required, field.default);
+      case "port":
+        return this.getPort(key, required, field.default);
+      case "regex":
+        return this.getRegex(key, required, field.default, field.flags);
+      case "date":
+        return this.getDate(key, required, field.default);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { test as base } from "@playwright/test";
+import { Env, EnvAccess } from "./env";
+
+/**
+ * Name of the per-test attachment holding the env access record.
+ * Read back by the env audit reporter.
+ */
+export const ENV_ACCESS_ATTACHMENT = "env-access";
+
+/**
+ * One line of the env access record: identical lookups are collapsed and counted.
+ */
+export type EnvAccessSummary = Omit<EnvAccess, "at"> & { count: number };
+
+/**
+ * Collapse identical lookups (same key, outcome, source, value and error).
+ */
+export function summarizeAccesses(accesses: readonly EnvAccess[]): EnvAccessSummary[] {
+  const summary = new Map<string, EnvAccessSummary>();
+  for (const { at, ...access } of accesses) {
+    const id = JSON.stringify(access);
+    const entry = summary.get(id);
+    if (entry) entry.count++;
+    else summary.set(id, { ...access, count: 1 });
+  }
+  return [...summary.values()];
+}
+
+/**
+ * Fixtures provided by the env layer.
+ */
+export type EnvFixtures = {
+  /**
+   * Option: environment variables to override for each test, applied
+   * through {@link Env.override} and restored when the test ends.
+   * A value of `undefined` makes the variable look unset.
+   *
+   * @example
+   * ```ts
+   * test.use({ envOverrides: { HEROKU_PWD: "wrong-password" } });
+   * ```
+   */
+  envOverrides: Record<string, string | number | boolean | undefined>;
+
+  /**
+   * Automatic fixture: the {@link Env} class with `envOverrides` applied
+   * for the duration of the test.
+   */
+  env: typeof Env;
+
+  /**
+   * Automatic fixture: attach every env lookup made during the test
+   * (key, outcome, source, masked value) as the `env-access` JSON attachment.
+   */
+  envAudit: void;
+};
+
+/**
+ * `test` extended with {@link EnvFixtures}.
+ */
+export const test = base.extend<EnvFixtures>({
+  envOverrides: [{}, { option: true }],
+
+  env: [async ({ envOverrides }, use) => {
+    const restore = Env.override(envOverrides);
+    try {
+      await use(Env);
+    } finally {
+      restore();
+    }
+  }, { auto: true }],
+
+  envAudit: [async ({}, use, testInfo) => {
+    const start = Env.accessCount;
+    await use();
+    const accesses = summarizeAccesses(Env.accesses(start));
+    await testInfo.attach(ENV_ACCESS_ATTACHMENT, {
+      body: JSON.stringify(accesses, null, 2),
+      contentType: "application/json",
+    });
+  }, { auto: true }],
+});
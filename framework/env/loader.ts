@@ -0,0 +1,177 @@
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import { decrypt, readVaultKey, VAULT_KEY_VAR } from "./vault";
+
+/**
+ * Name of the environment variable that selects the active profile
+ * (e.g. `TEST_ENV=staging`).
+ */
+export const PROFILE_VAR = "TEST_ENV";
+
+/**
+ * Source label used for values that come from the real process environment
+ * (shell, CI secrets, ...), as opposed to a `.env` file.
+ */
+export const PROCESS_ENV_SOURCE = "process.env";
+
+/**
+ * Suffix of encrypted env files (see `./vault.ts`).
+ */
+export const VAULT_SUFFIX = ".vault";
+
+/**
+ * Result of loading the layered `.env` files.
+ */
+export type LoadedEnv = {
+  /** The active profile, or `undefined` when `TEST_ENV` is not set. */
+  profile?: string;
+  /** Merged values: real environment first, then the files by precedence. */
+  values: Record<string, string | undefined>;
+  /** Values defined by the `.env` files only, before the real environment is applied. */
+  fileValues: Record<string, string>;
+  /**
+   * Where each value came from: {@link PROCESS_ENV_SOURCE} or the path
+   * (relative to `dir`) of the `.env` file that provided it.
+   */
+  sources: Record<string, string>;
+  /** The `.env` files that existed and were read, lowest precedence first. */
+  files: string[];
+  /** The key that decrypted the vault files, if any were read (see {@link resolveVaultKey}). */
+  vaultKey?: string;
+};
+
+/**
+ * Read and parse a single `.env` file, or return `undefined` if it does not exist.
+ */
+function readEnvFile(file: string): Record<string, string> | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  try {
+    return dotenv.parse(fs.readFileSync(file));
+  } catch (e) {
+    throw new Error(`Env: Failed to read ${file}: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * List the `.env` files for a profile, lowest precedence first:
+ * `.env`, `.env.vault`, `.env.<profile>`, `.env.<profile>.vault`, `.env.<profile>.local`.
+ */
+export function envFilesFor(profile?: string): string[] {
+  const base = [".env", `.env${VAULT_SUFFIX}`];
+  return profile
+    ? [...base, `.env.${profile}`, `.env.${profile}${VAULT_SUFFIX}`, `.env.${profile}.local`]
+    : base;
+}
+
+/**
+ * Load the layered `.env` files for the active profile.
+ *
+ * Precedence (highest wins):
+ * 1. Real `process.env` (shell, CI secrets).
+ * 2. `.env.<profile>.local` — personal overrides, never committed.
+ * 3. `.env.<profile>.vault` — encrypted profile secrets, committed.
+ * 4. `.env.<profile>` — shared profile settings.
+ * 5. `.env.vault` — encrypted secrets shared by every profile, committed.
+ * 6. `.env` — shared defaults for every profile.
+ *
+ * Vault files are decrypted with the key from `ENV_VAULT_KEY`,
+ * `ENV_VAULT_KEY_FILE` or `.env.vault.key` (see {@link readVaultKey}),
+ * looked up in the real environment and the plain files. Without a key,
+ * vault files are skipped with a warning.
+ *
+ * The profile is taken from `TEST_ENV` in the real environment, falling
+ * back to `TEST_ENV` declared in the base `.env` file.
+ *
+ * Unlike `dotenv.config()`, values taken from files are **not** copied
+ * into `process.env`: Playwright forks its workers with the runner's
+ * `process.env`, so they would show up there as real environment
+ * variables (wrong sources, vault values not recognized as secret, file
+ * edits ignored by `Env.reload()`). Each process reads the files itself;
+ * read configuration through `Env`, not `process.env`.
+ *
+ * @param dir - Directory holding the `.env` files. Defaults to `process.cwd()`.
+ * @throws If `TEST_ENV` is not a valid profile name or a file cannot be parsed.
+ */
+export function loadEnv(dir = process.cwd()): LoadedEnv {
+  const { real, profile, names, plain } = readPlainFiles(dir);
+  const values: Record<string, string | undefined> = {};
+  const sources: Record<string, string> = {};
+  const files: string[] = [];
+
+  let key: string | undefined;
+  for (const name of names) {
+    let parsed = plain.get(name);
+    if (name.endsWith(VAULT_SUFFIX) && fs.existsSync(path.join(dir, name))) {
+      key ??= vaultKeyFrom(real, plain, dir);
+      if (!key) {
+        console.warn(`Env: Skipping ${name}: no ${VAULT_KEY_VAR}, ${VAULT_KEY_VAR}_FILE or .env.vault.key found`);
+        continue;
+      }
+      try {
+        parsed = dotenv.parse(decrypt(fs.readFileSync(path.join(dir, name), "utf8"), key));
+      } catch (e) {
+        throw new Error(`Env: Failed to decrypt ${name}: ${(e as Error).message}`);
+      }
+    }
+    if (!parsed) continue;
+    files.push(name);
+    for (const [k, v] of Object.entries(parsed)) {
+      values[k] = v;
+      sources[k] = name;
+    }
+  }
+
+  const fileValues = { ...values } as Record<string, string>;
+
+  for (const [k, v] of Object.entries(real)) {
+    if (v === undefined) continue;
+    values[k] = v;
+    sources[k] = PROCESS_ENV_SOURCE;
+  }
+
+  return { profile, values, fileValues, sources, files, vaultKey: key };
+}
+
+/**
+ * Find the vault key the way {@link loadEnv} does: `ENV_VAULT_KEY` or
+ * `ENV_VAULT_KEY_FILE` from the real environment or the plain `.env` files
+ * of the active profile, else `.env.vault.key` (see {@link readVaultKey}).
+ *
+ * @param dir - Directory holding the `.env` files. Defaults to `process.cwd()`.
+ * @returns The base64 key, or `undefined` if none is configured.
+ * @throws If `TEST_ENV` is invalid, a file cannot be parsed or `ENV_VAULT_KEY_FILE` cannot be read.
+ */
+export function resolveVaultKey(dir = process.cwd()): string | undefined {
+  const { real, plain } = readPlainFiles(dir);
+  return vaultKeyFrom(real, plain, dir);
+}
+
+/**
+ * Read the real environment, the active profile and the plain (not
+ * encrypted) `.env` files that exist for it.
+ */
+function readPlainFiles(dir: string) {
+  const real: Record<string, string | undefined> = { ...process.env };
+
+  const base = readEnvFile(path.join(dir, ".env"));
+  const profile = real[PROFILE_VAR] || base?.[PROFILE_VAR] || undefined;
+  if (profile !== undefined && !/^[\w-]+$/.test(profile)) {
+    throw new Error(`Env: Invalid ${PROFILE_VAR} profile name: "${profile}"`);
+  }
+
+  const names = envFilesFor(profile);
+  const plain = new Map<string, Record<string, string>>();
+  for (const name of names.filter(n => !n.endsWith(VAULT_SUFFIX))) {
+    const parsed = name === ".env" ? base : readEnvFile(path.join(dir, name));
+    if (parsed) plain.set(name, parsed);
+  }
+  return { real, profile, names, plain };
+}
+
+/**
+ * Look the vault key up in the plain files, overridden by the real environment.
+ */
+function vaultKeyFrom(real: Record<string, string | undefined>, plain: Map<string, Record<string, string>>, dir: string): string | undefined {
+  return readVaultKey({ ...Object.assign({}, ...plain.values()), ...real }, dir);
+}
@@ -0,0 +1,38 @@
+import { test, TestInfo } from "@playwright/test";
+import { Env } from "./env";
+
+/**
+ * What a test does when configuration it needs is missing, see {@link missingConfig}.
+ */
+export const MISSING_CONFIG_MODES = ["fail", "skip"] as const;
+export type MissingConfigMode = (typeof MISSING_CONFIG_MODES)[number];
+
+/**
+ * Stop the current test because configuration it needs is missing.
+ *
+ * With `MISSING_CONFIG=skip` the test is skipped and the message is shown
+ * as its skip reason (e.g. locally, without credentials); otherwise
+ * (the default) it fails with the message. Only the tests that need the
+ * configuration are affected, the rest of the file still runs.
+ *
+ * @param message - What is missing and how to provide it.
+ *
+ * @example
+ * ```ts
+ * if (!account.otp) missingConfig(`Account "${account.name}" has no otpUri`);
+ * ```
+ */
+export function missingConfig(message: string): never {
+  const mode = Env.getEnum("MISSING_CONFIG", MISSING_CONFIG_MODES, false, "fail");
+  if (mode === "skip") {
+    let testInfo: TestInfo | undefined;
+    try {
+      testInfo = test.info();
+    } catch {
+      // Not running inside a test: nothing to skip.
+    }
+    // Throws to abort the test.
+    testInfo?.skip(true, `Missing configuration: ${message}`);
+  }
+  throw new Error(`Missing configuration: ${message}`);
+}
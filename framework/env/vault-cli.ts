@@ -0,0 +1,124 @@
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { resolveVaultKey, VAULT_SUFFIX } from "./loader";
+import { decrypt, DEFAULT_KEY_FILE, encrypt, generateKey, VAULT_KEY_VAR } from "./vault";
+
+const USAGE = `Usage: npm run env:vault -- <command> [args]
+
+Commands:
+  keygen [--write]          Print a new key (--write: save it to ${DEFAULT_KEY_FILE})
+  encrypt <file> [out]      Encrypt a plain env file (default out: <file>${VAULT_SUFFIX})
+  decrypt <vault> [out]     Decrypt a vault file to <out> or stdout
+  edit <vault>              Decrypt to a temp file, open $EDITOR, re-encrypt
+  rotate [vaults...]        Re-encrypt vault files (default: all .env*${VAULT_SUFFIX}) with a new key
+
+The key is read from ${VAULT_KEY_VAR}, ${VAULT_KEY_VAR}_FILE or ${DEFAULT_KEY_FILE}.`;
+
+/**
+ * Get the configured vault key (found like the tests find it, `.env`
+ * files included) or fail with a hint.
+ */
+function requireKey(): string {
+  const key = resolveVaultKey();
+  if (!key) throw new Error(`Vault: No key found. Set ${VAULT_KEY_VAR} or run "keygen --write".`);
+  return key;
+}
+
+/**
+ * Where the configured key lives, if it is a file we can update on rotation.
+ */
+function keyFile(): string | undefined {
+  if (process.env[VAULT_KEY_VAR]) return undefined;
+  const file = process.env[`${VAULT_KEY_VAR}_FILE`] ?? DEFAULT_KEY_FILE;
+  return fs.existsSync(file) ? file : undefined;
+}
+
+/**
+ * Write a file readable by the current user only.
+ */
+function writePrivate(file: string, content: string): void {
+  fs.writeFileSync(file, content, { mode: 0o600 });
+}
+
+function keygen(args: string[]): void {
+  const key = generateKey();
+  if (!args.includes("--write")) {
+    console.log(key);
+    return;
+  }
+  if (fs.existsSync(DEFAULT_KEY_FILE)) throw new Error(`Vault: ${DEFAULT_KEY_FILE} already exists, use "rotate"`);
+  writePrivate(DEFAULT_KEY_FILE, `${key}\n`);
+  console.log(`Wrote ${DEFAULT_KEY_FILE}. Share it with the team securely and store it as the ${VAULT_KEY_VAR} CI secret.`);
+}
+
+function encryptFile([input, output = `${input}${VAULT_SUFFIX}`]: string[]): void {
+  if (!input) throw new Error(USAGE);
+  fs.writeFileSync(output, encrypt(fs.readFileSync(input, "utf8"), requireKey()));
+  console.log(`Encrypted ${input} → ${output}. Do not commit ${input}.`);
+}
+
+function decryptFile([input, output]: string[]): void {
+  if (!input) throw new Error(USAGE);
+  const plain = decrypt(fs.readFileSync(input, "utf8"), requireKey());
+  if (output) writePrivate(output, plain);
+  else process.stdout.write(plain);
+}
+
+function edit([vault]: string[]): void {
+  if (!vault) throw new Error(USAGE);
+  const key = requireKey();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "env-vault-"));
+  const tmp = path.join(dir, path.basename(vault).replace(VAULT_SUFFIX, ""));
+  try {
+    writePrivate(tmp, fs.existsSync(vault) ? decrypt(fs.readFileSync(vault, "utf8"), key) : "");
+    const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+    const result = spawnSync(editor, [tmp], { stdio: "inherit", shell: true });
+    if (result.status !== 0) throw new Error(`Vault: Editor "${editor}" exited with code ${result.status}`);
+    fs.writeFileSync(vault, encrypt(fs.readFileSync(tmp, "utf8"), key));
+    console.log(`Updated ${vault}`);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function rotate(args: string[]): void {
+  const oldKey = requireKey();
+  const vaults = args.length
+    ? args
+    : fs.readdirSync(".").filter(f => f.startsWith(".env") && f.endsWith(VAULT_SUFFIX));
+  const newKey = generateKey();
+
+  // Decrypt everything first so a bad file does not leave a mix of keys behind.
+  const plain = vaults.map(v => decrypt(fs.readFileSync(v, "utf8"), oldKey));
+  vaults.forEach((v, i) => fs.writeFileSync(v, encrypt(plain[i], newKey)));
+
+  const file = keyFile();
+  if (file) writePrivate(file, `${newKey}\n`);
+  console.log(`Re-encrypted ${vaults.join(", ") || "(no vault files)"}.`);
+  console.log(file ? `New key written to ${file}.` : `New key (update ${VAULT_KEY_VAR} everywhere):\n${newKey}`);
+}
+
+/**
+ * CLI entry point, see {@link USAGE}.
+ */
+function main([command, ...args]: string[]): void {
+  switch (command) {
+    case "keygen": return keygen(args);
+    case "encrypt": return encryptFile(args);
+    case "decrypt": return decryptFile(args);
+    case "edit": return edit(args);
+    case "rotate": return rotate(args);
+    default: throw new Error(USAGE);
+  }
+}
+
+if (require.main === module) {
+  try {
+    main(process.argv.slice(2));
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,111 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Environment variable holding the vault key (base64, 32 bytes).
+ */
+export const VAULT_KEY_VAR = "ENV_VAULT_KEY";
+
+/**
+ * Default key file, read when neither `ENV_VAULT_KEY` nor
+ * `ENV_VAULT_KEY_FILE` is set. Never committed (see `.gitignore`).
+ */
+export const DEFAULT_KEY_FILE = ".env.vault.key";
+
+/** Prefix and version of the encrypted payload. */
+const PAYLOAD_PREFIX = "vault:v1:";
+
+/** Cipher used for vault files: authenticated, so tampering is detected. */
+const ALGORITHM = "aes-256-gcm";
+
+/**
+ * Generate a new random vault key, base64 encoded.
+ */
+export function generateKey(): string {
+  return crypto.randomBytes(32).toString("base64");
+}
+
+/**
+ * Decode and check a base64 vault key.
+ * @throws If the key is not 32 bytes of base64.
+ */
+function decodeKey(key: string): Buffer {
+  const buf = Buffer.from(key.trim(), "base64");
+  if (buf.length !== 32) {
+    throw new Error(`Vault: ${VAULT_KEY_VAR} must be 32 bytes encoded as base64 (got ${buf.length} bytes)`);
+  }
+  return buf;
+}
+
+/**
+ * Encrypt the contents of a plain `.env` file into a vault file body.
+ *
+ * The result is a comment line followed by a single
+ * `vault:v1:<iv>:<tag>:<ciphertext>` payload line (all base64).
+ */
+export function encrypt(plaintext: string, key: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, decodeKey(key), iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return (
+    "# Encrypted env file. Edit with: npm run env:vault -- edit <file>\n" +
+    `${PAYLOAD_PREFIX}${iv.toString("base64")}:${tag.toString("base64")}:${data.toString("base64")}\n`
+  );
+}
+
+/**
+ * Whether a text is a vault body produced by {@link encrypt}.
+ */
+export function isEncrypted(text: string): boolean {
+  return text.split(/\r?\n/).some(l => l.startsWith(PAYLOAD_PREFIX));
+}
+
+/**
+ * Decrypt a vault file body produced by {@link encrypt}.
+ * @throws If the payload is malformed, or the key is wrong / the file was modified.
+ */
+export function decrypt(vault: string, key: string): string {
+  const line = vault.split(/\r?\n/).find(l => l.startsWith(PAYLOAD_PREFIX));
+  if (!line) throw new Error(`Vault: No ${PAYLOAD_PREFIX} payload found`);
+
+  const [iv, tag, data] = line.slice(PAYLOAD_PREFIX.length).split(":").map(p => Buffer.from(p, "base64"));
+  if (!iv || !tag || !data) throw new Error("Vault: Malformed payload");
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, decodeKey(key), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+  } catch (e) {
+    if ((e as Error).message.startsWith("Vault:")) throw e;
+    throw new Error("Vault: Decryption failed (wrong key or modified file)");
+  }
+}
+
+/**
+ * Find the vault key:
+ * 1. `ENV_VAULT_KEY`,
+ * 2. the file named by `ENV_VAULT_KEY_FILE`,
+ * 3. `.env.vault.key` in `dir`.
+ *
+ * @param values - Variables to look the key up in (real env + plain `.env` files).
+ * @param dir - Directory holding the default key file.
+ * @returns The base64 key, or `undefined` if none is configured.
+ * @throws If `ENV_VAULT_KEY_FILE` is set but cannot be read.
+ */
+export function readVaultKey(values: Record<string, string | undefined>, dir = process.cwd()): string | undefined {
+  if (values[VAULT_KEY_VAR]) return values[VAULT_KEY_VAR]!.trim();
+
+  const keyFile = values[`${VAULT_KEY_VAR}_FILE`];
+  if (keyFile) {
+    try {
+      return fs.readFileSync(keyFile.trim(), "utf8").trim();
+    } catch (e) {
+      throw new Error(`Vault: Failed to read ${VAULT_KEY_VAR}_FILE (${keyFile}): ${(e as Error).message}`);
+    }
+  }
+
+  const defaultFile = path.join(dir, DEFAULT_KEY_FILE);
+  return fs.existsSync(defaultFile) ? fs.readFileSync(defaultFile, "utf8").trim() : undefined;
+}
@@ -0,0 +1,178 @@
+import { expect as baseExpect, ExpectMatcherState, Locator, MatcherReturnType, Page } from "@playwright/test";
+import { BaseComponent } from "../pages/components/base-component";
+import { OTP } from "../security/otp";
+import { OTPFailureReason, OTPVerification, OTPVerifier } from "../security/otp-verifier";
+
+/**
+ * Where a matcher searches: a page, a locator or a component (its root).
+ */
+export type MatcherScope = Page | Locator | BaseComponent;
+
+/**
+ * Options of {@link expect}'s `toBeValidOtp`.
+ */
+export type ValidOtpOptions = {
+  /** Allowed step drift (±window for TOTP, look-ahead for HOTP). Default = 1. */
+  window?: number;
+  /** Time to verify at (epoch ms, TOTP only). Defaults to now. */
+  timestamp?: number;
+  /**
+   * HOTP only: use up a valid code, moving the stored counter past it as
+   * `OTP.verify` does (e.g. when the test plays the server). Default =
+   * `false`: the assertion leaves the counter alone, so the code can still
+   * be submitted.
+   */
+  consume?: boolean;
+};
+
+function scopeOf(received: MatcherScope): Page | Locator {
+  return received instanceof BaseComponent ? received.root : received;
+}
+
+function matches(text: string, expected: string | RegExp): boolean {
+  return typeof expected === "string" ? text.includes(expected) : expected.test(text);
+}
+
+/**
+ * Check an HOTP code against the stored counter and the `window` counters
+ * after it, without moving the counter (unlike `OTP.verify`).
+ */
+function peekHotp(otp: OTP, code: string, window: number): OTPVerification {
+  const hotp = otp.getHOTP();
+  const token = typeof code === "string" ? otp.normalizeToken(code) : "";
+  const reject = (reason: OTPFailureReason): OTPVerification => ({ ok: false, reason, attemptsLeft: Infinity });
+  if (!/^\d+$/.test(token)) return reject("malformed");
+  if (token.length !== hotp.digits) return reject("wrong_length");
+
+  const counter = otp.getCounter();
+  for (let delta = 0; delta <= window; delta++) {
+    if (hotp.generate({ counter: counter + delta }) === token) return { ok: true, delta };
+  }
+  return reject("out_of_window");
+}
+
+/**
+ * Error messages a form control exposes: its `aria-errormessage` and
+ * `aria-describedby` elements, and the browser's own validation message.
+ */
+async function fieldErrors(field: Locator): Promise<string[]> {
+  if ((await field.count()) !== 1) return [];
+  return field.evaluate(el => {
+    const byIds = (attr: string) => (el.getAttribute(attr) ?? "")
+      .split(/\s+/)
+      .map(id => id && el.ownerDocument.getElementById(id)?.textContent?.trim())
+      .filter((text): text is string => !!text);
+    const native = (el as HTMLInputElement).validationMessage;
+    return [...byIds("aria-errormessage"), ...byIds("aria-describedby"), ...(native ? [native] : [])];
+  });
+}
+
+/**
+ * Retry `check` until it passes (or, negated, until it fails) within
+ * `timeout`, the way the built-in web-first assertions do.
+ *
+ * @returns Whether the (possibly negated) expectation was met.
+ */
+async function poll(state: ExpectMatcherState, check: () => Promise<boolean>, timeout?: number): Promise<boolean> {
+  try {
+    await baseExpect(async () => {
+      if ((await check()) === state.isNot) throw new Error("Not yet");
+    }).toPass({ timeout: timeout ?? state.timeout });
+    return !state.isNot;
+  } catch {
+    return state.isNot;
+  }
+}
+
+/**
+ * `expect` from Playwright with the framework's matchers:
+ *
+ * - `toShowAlert(text)`: a `role="alert"` region in the page, locator or
+ *   component contains `text` (substring or regex).
+ * - `toBeValidOtp(otp, { window })`: the received code is accepted by
+ *   `otp`; on failure the message gives the reason (`malformed`,
+ *   `wrong_length`, `out_of_window`). HOTP codes are checked against the
+ *   stored counter without consuming them, unless `consume: true`.
+ * - `toHaveFieldError(field, message)`: the form control labelled `field`
+ *   shows `message`, through `aria-errormessage`, `aria-describedby` or
+ *   the browser's validation message.
+ *
+ * The web-first ones retry until the `expect` timeout, and all of them
+ * support `.not`.
+ *
+ * @example
+ * ```ts
+ * import { test, expect } from '@fixtures';
+ *
+ * await expect(page).toShowAlert('Incorrect username or password.');
+ * expect(code).toBeValidOtp(otp, { window: 0 });
+ * await expect(app.github.login.form).toHaveFieldError('Password', /required/);
+ * ```
+ */
+export const expect = baseExpect.extend({
+  async toShowAlert(
+    this: ExpectMatcherState,
+    received: MatcherScope,
+    expected: string | RegExp,
+    options: { timeout?: number } = {},
+  ): Promise<MatcherReturnType> {
+    const name = "toShowAlert";
+    const alerts = scopeOf(received).getByRole("alert");
+    let actual: string[] = [];
+    const pass = await poll(this, async () => {
+      actual = (await alerts.allInnerTexts()).map(t => t.trim()).filter(Boolean);
+      return actual.some(text => matches(text, expected));
+    }, options.timeout);
+
+    const message = () =>
+      this.utils.matcherHint(name, undefined, undefined, { isNot: this.isNot }) + "\n\n" +
+      `Locator: ${alerts}\n` +
+      `Expected: ${this.isNot ? "no alert containing " : "an alert containing "}${this.utils.printExpected(expected)}\n` +
+      `Received: ${actual.length ? actual.map(t => this.utils.printReceived(t)).join(", ") : "no alert"}`;
+    return { pass, message, name, expected, actual };
+  },
+
+  toBeValidOtp(
+    this: ExpectMatcherState,
+    received: string,
+    otp: OTP,
+    options: ValidOtpOptions = {},
+  ): MatcherReturnType {
+    const name = "toBeValidOtp";
+    const window = options.window ?? 1;
+    const result = otp.kind === "hotp" && !options.consume
+      ? peekHotp(otp, received, window)
+      : new OTPVerifier(otp, { window, maxAttempts: Infinity }).verify(received, options.timestamp);
+    const pass = result.ok;
+
+    const message = () =>
+      this.utils.matcherHint(name, "code", "otp", { isNot: this.isNot }) + "\n\n" +
+      `Expected: ${this.isNot ? "not " : ""}a valid ${otp.kind.toUpperCase()} code (window ${window})\n` +
+      `Received: ${this.utils.printReceived(received)}\n` +
+      (result.ok ? `Matched:  step offset ${result.delta}` : `Reason:   ${result.reason}`);
+    return { pass, message, name, actual: received };
+  },
+
+  async toHaveFieldError(
+    this: ExpectMatcherState,
+    received: MatcherScope,
+    field: string,
+    expected: string | RegExp,
+    options: { timeout?: number } = {},
+  ): Promise<MatcherReturnType> {
+    const name = "toHaveFieldError";
+    const control = scopeOf(received).getByLabel(field, { exact: true });
+    let actual: string[] = [];
+    const pass = await poll(this, async () => {
+      actual = await fieldErrors(control);
+      return actual.some(text => matches(text, expected));
+    }, options.timeout);
+
+    const message = () =>
+      this.utils.matcherHint(name, undefined, undefined, { isNot: this.isNot }) + "\n\n" +
+      `Locator: ${control}\n` +
+      `Expected: ${this.isNot ? "no error " : "an error "}${this.utils.printExpected(expected)} on field ${JSON.stringify(field)}\n` +
+      `Received: ${actual.length ? actual.map(t => this.utils.printReceived(t)).join(", ") : "no error message"}`;
+    return { pass, message, name, expected, actual };
+  },
+});
@@ -0,0 +1,102 @@
+import { Env, EnvValidationError } from "../env/env";
+import { missingConfig, MISSING_CONFIG_MODES } from "../env/missing-config";
+import { LOG_LEVELS } from "../logger/logger";
+
+/**
+ * Framework settings validated together by {@link loadConfig} (and the
+ * `config` fixture).
+ */
+export const FRAMEWORK_SCHEMA = Env.declare({
+  LOG_LEVEL:              { type: "enum", values: LOG_LEVELS, default: "info", description: "Minimum level printed by the framework logger" },
+  MISSING_CONFIG:         { type: "enum", values: MISSING_CONFIG_MODES, default: "fail", description: "What tests do when configuration they need is missing" },
+  ACCOUNT_POOL:           { type: "list", required: false, description: "Accounts leased by the account fixture, default all of TEST_ACCOUNTS" },
+  ACCOUNT_POOL_WAIT:      { type: "duration", default: 60000, description: "How long to wait for a free account" },
+  AUTH_SESSION_TTL:       { type: "duration", default: 1800000, description: "How long a saved login session is reused" },
+  SMTP_CATCHER_PORT:      { type: "port", required: false, description: "First port of the per-worker SMTP catchers, random when unset" },
+  SMS_WEBHOOK_PORT:       { type: "port", required: false, description: "First port of the per-worker SMS webhooks, random when unset" },
+  EMAIL_OTP_CODE_PATTERN: { type: "regex", required: false, description: "Pattern of the code in OTP emails" },
+  EMAIL_OTP_LINK_PATTERN: { type: "regex", required: false, description: "Pattern of the link in magic-link emails" },
+});
+
+/**
+ * Variables read directly by individual modules, declared here so the env
+ * doctor lists them with their defaults.
+ */
+Env.declare({
+  TEST_ENV:            { type: "string", required: false, description: "Profile: also loads .env.<profile> and .env.<profile>.local" },
+  ENV_VAULT_KEY:       { type: "string", required: false, secret: true, description: "Key decrypting .env*.vault files (or ENV_VAULT_KEY_FILE)" },
+  ENV_VAULT_KEY_FILE:  { type: "string", required: false, description: "File containing ENV_VAULT_KEY" },
+  TEST_ACCOUNTS:       { type: "json", required: false, secret: true, description: 'Named accounts: {"admin": {"username": "", "password": "", "otpUri": ""}}' },
+  ACCOUNT_POOL_FILE:   { type: "string", default: "test-results/.accounts/leases.json", description: "Lease file shared by the workers" },
+  AUTH_STATE_DIR:      { type: "string", default: ".auth", description: "Directory of saved login sessions" },
+  RECOVERY_CODES_FILE: { type: "string", default: ".otp/recovery-codes.json", description: "Which recovery codes were used" },
+  OTP_COUNTER_FILE:    { type: "string", default: ".otp/hotp-counters.json", description: "HOTP counter file shared by the workers" },
+  OTP_TIME_ENDPOINT:   { type: "url", required: false, description: "Endpoint returning the server time, for OTP clock skew" },
+  OTP_SKEW_URL:        { type: "url", required: false, description: "URL whose Date header gives the server time, for OTP clock skew" },
+  OTP_CLOCK_SKEW_MS:   { type: "number", required: false, description: "Known OTP clock skew, skips measuring it; set by the global setup" },
+  TEST_DATA_DIR:       { type: "string", default: "tests/data", description: "Folder of data-driven test files" },
+});
+
+/**
+ * Read and validate the framework settings in one pass.
+ *
+ * @throws {EnvValidationError} If a value is malformed.
+ */
+export function loadConfig() {
+  return Env.schema(FRAMEWORK_SCHEMA);
+}
+
+/**
+ * The typed framework settings, see {@link loadConfig}.
+ */
+export type FrameworkConfig = ReturnType<typeof loadConfig>;
+
+/**
+ * The outcome of validating configuration once, kept so that it can be
+ * reported later in each test that needs it. Used where the validation runs
+ * outside a test (e.g. the worker-scoped `workerConfig` fixture), since only
+ * a test can be skipped.
+ */
+export class CheckedConfig<T> {
+  private constructor(private readonly value: T | undefined, private readonly error?: EnvValidationError) {}
+
+  /**
+   * Run `load` (typically an `Env.schema` call), keeping an
+   * {@link EnvValidationError} instead of throwing it.
+   */
+  static check<T>(load: () => T): CheckedConfig<T> {
+    try {
+      return new CheckedConfig(load());
+    } catch (e) {
+      if (e instanceof EnvValidationError) return new CheckedConfig<T>(undefined, e);
+      throw e;
+    }
+  }
+
+  /**
+   * The validated values.
+   *
+   * @throws Through {@link missingConfig} (the current test is skipped or
+   *   failed with the list of issues) if the validation failed.
+   */
+  get(): T {
+    if (this.error) missingConfig(this.error.issues.map(i => `${i.key}: ${i.message}`).join("; "));
+    return this.value as T;
+  }
+}
+
+/**
+ * Validate `load` (typically an `Env.schema` call), turning an
+ * {@link EnvValidationError} into {@link missingConfig}: the current test
+ * is skipped or failed with the list of issues.
+ *
+ * @example
+ * ```ts
+ * const { STRIPE_KEY } = requireConfig(() => Env.schema({
+ *   STRIPE_KEY: { type: "string", secret: true, description: "Stripe test-mode key" },
+ * }));
+ * ```
+ */
+export function requireConfig<T>(load: () => T): T {
+  return CheckedConfig.check(load).get();
+}
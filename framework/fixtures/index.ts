@@ -0,0 +1,122 @@
+import { mergeTests } from "@playwright/test";
+import { test as envTest } from "../env/fixtures";
+import { missingConfig } from "../env/missing-config";
+import { test as mailTest } from "../mail/fixtures";
+import { test as pagesTest } from "../pages/fixtures";
+import { OTP } from "../security/otp";
+import { OTPProvider, SecondFactorProvider, SecondFactorRegistry } from "../security/second-factor";
+import { test as smsTest } from "../sms/fixtures";
+import { CheckedConfig, FrameworkConfig, loadConfig, requireConfig } from "./config";
+
+export { expect } from "../expect/matchers";
+export { CheckedConfig, requireConfig } from "./config";
+export type { FrameworkConfig } from "./config";
+
+/**
+ * Fixtures added on top of the merged framework layers.
+ */
+export type FrameworkFixtures = {
+  /**
+   * The validated framework settings (see {@link loadConfig}), read with
+   * the test's `envOverrides` applied. A malformed value skips or fails
+   * the test with the list of issues instead of breaking the file load.
+   *
+   * @example
+   * ```ts
+   * test('code arrives', async ({ config, emailOtp }) => {
+   *   test.skip(!config.SMTP_CATCHER_PORT, 'The app does not send mail here');
+   * });
+   * ```
+   */
+  config: FrameworkConfig;
+
+  /**
+   * The authenticator of the leased `account`. Tests using it are skipped
+   * or failed when the account has no `otpUri`.
+   */
+  otp: OTP;
+
+  /**
+   * The second factor of the leased `account`: the provider registered for
+   * it in {@link SecondFactorRegistry} (e.g. email or SMS), else its
+   * authenticator. Recorded as a `second-factor` annotation.
+   *
+   * @example
+   * ```ts
+   * await app.heroku.twoFactor.verify(await secondFactor.getCode());
+   * ```
+   */
+  secondFactor: SecondFactorProvider;
+};
+
+/**
+ * Worker-scoped fixtures added on top of the merged framework layers.
+ */
+export type FrameworkWorkerFixtures = {
+  /**
+   * The framework settings validated once per worker, for `beforeAll` hooks
+   * and worker fixtures. Read without the tests' `envOverrides`; a malformed
+   * value is only reported, by skipping or failing the test, when
+   * {@link CheckedConfig.get} is called.
+   *
+   * @example
+   * ```ts
+   * test.beforeAll(async ({ workerConfig }) => {
+   *   const { ACCOUNT_POOL_WAIT } = workerConfig.get();
+   * });
+   * ```
+   */
+  workerConfig: CheckedConfig<FrameworkConfig>;
+};
+
+/**
+ * The framework's `test`: every layer's fixtures in one import.
+ *
+ * - env: `envOverrides`, `env`, the env access record;
+ * - security: secret redaction, `accounts`, `account` (leased), `otpClock`;
+ * - pages: `app`;
+ * - mail / SMS: `mailbox`, `smsReceiver` (worker-scoped servers), `emailOtp`,
+ *   `smsInbox` (emptied before each test);
+ * - plus {@link FrameworkFixtures} and {@link FrameworkWorkerFixtures}.
+ *
+ * Fixtures needing configuration that is not set (accounts, OTP URIs,
+ * schema values) skip or fail only the tests that use them, as selected by
+ * `MISSING_CONFIG` (see {@link missingConfig}).
+ *
+ * Saved login sessions are not included: import `test` from
+ * `@framework/auth/fixtures` and set its `authenticated` option for that.
+ *
+ * @example
+ * ```ts
+ * import { test, expect } from '@fixtures';
+ *
+ * test('login', async ({ app, account, secondFactor }) => {
+ *   await app.heroku.login.open();
+ *   await app.heroku.login.submitCredentials(account.username, account.password);
+ *   await app.heroku.twoFactor.verify(await secondFactor.getCode());
+ * });
+ * ```
+ */
+export const test = mergeTests(envTest, pagesTest, mailTest, smsTest).extend<FrameworkFixtures, FrameworkWorkerFixtures>({
+  workerConfig: [async ({}, use) => {
+    await use(CheckedConfig.check(loadConfig));
+  }, { scope: "worker" }],
+
+  config: async ({}, use) => {
+    await use(requireConfig(loadConfig));
+  },
+
+  otp: async ({ account }, use) => {
+    if (!account.otp) missingConfig(`Account "${account.name}" has no otpUri`);
+    await use(account.otp);
+  },
+
+  secondFactor: async ({ account }, use, testInfo) => {
+    let provider: SecondFactorProvider;
+    if (SecondFactorRegistry.has(account.name)) provider = SecondFactorRegistry.get(account.name);
+    else if (account.otp) provider = new OTPProvider(account.otp);
+    else missingConfig(`Account "${account.name}" has no otpUri and no registered second factor`);
+    testInfo.annotations.push({ type: "second-factor", description: `${provider.kind} for ${account.name}` });
+    await use(provider);
+  },
+});
@@ -0,0 +1,79 @@
+import { format } from "util";
+import { Env } from "../env/env";
+import { Secrets } from "../security/secrets";
+
+/**
+ * Supported log levels, from most to least verbose.
+ */
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Minimal scoped console logger used by the framework.
+ *
+ * - Every message is passed through {@link Secrets.mask}, so registered
+ *   secrets (passwords, OTP URIs, generated codes) never reach the console
+ *   or the captured stdout attached to the report.
+ * - The minimum level is read from `LOG_LEVEL` (default: `info`) once,
+ *   and again after `Env.reload()` or a scoped override.
+ *
+ * @example
+ * ```ts
+ * const log = Logger.for("otp");
+ * log.info("Generated code %s", code); // => [otp] Generated code ******
+ * ```
+ */
+export class Logger {
+  /**
+   * The resolved level and the `Env.revision` it was read at.
+   */
+  private static resolved?: { revision: number; level: LogLevel };
+
+  private constructor(private readonly scope: string) {}
+
+  /**
+   * Create a logger whose messages are prefixed with `[scope]`.
+   */
+  static for(scope: string): Logger {
+    return new Logger(scope);
+  }
+
+  /**
+   * The minimum level that is printed, read from `LOG_LEVEL`.
+   *
+   * Cached until `Env.revision` changes, so logging does not add an entry
+   * to the `Env` access log on every write.
+   */
+  static get level(): LogLevel {
+    if (this.resolved?.revision !== Env.revision) {
+      this.resolved = { revision: Env.revision, level: Env.getEnum("LOG_LEVEL", LOG_LEVELS, false, "info") };
+    }
+    return this.resolved.level;
+  }
+
+  debug(message: string, ...args: unknown[]): void {
+    this.write("debug", message, args);
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    this.write("info", message, args);
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    this.write("warn", message, args);
+  }
+
+  error(message: string, ...args: unknown[]): void {
+    this.write("error", message, args);
+  }
+
+  /**
+   * Format, mask and print a message if `level` is enabled.
+   */
+  private write(level: Exclude<LogLevel, "silent">, message: string, args: unknown[]): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(Logger.level)) return;
+    const line = Secrets.mask(`[${this.scope}] ${format(message, ...args)}`);
+    const out = level === "error" ? console.error : level === "warn" ? console.warn : console.log;
+    out(line);
+  }
+}
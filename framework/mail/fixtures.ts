@@ -0,0 +1,60 @@
+import { test as base } from "@playwright/test";
+import { Env } from "../env/env";
+import { EmailOTP } from "../security/email-otp";
+import { SmtpCatcher } from "./smtp-catcher";
+
+/**
+ * Test-scoped fixtures provided by the mail layer.
+ */
+export type MailFixtures = {
+  /**
+   * Email OTP provider reading from this worker's {@link MailWorkerFixtures.mailbox}.
+   * Patterns come from `EMAIL_OTP_CODE_PATTERN` / `EMAIL_OTP_LINK_PATTERN`
+   * when set (e.g. `/code: (\d{8})/`).
+   */
+  emailOtp: EmailOTP;
+};
+
+/**
+ * Worker-scoped fixtures provided by the mail layer.
+ */
+export type MailWorkerFixtures = {
+  /**
+   * Local SMTP server started once per worker. Listens on
+   * `SMTP_CATCHER_PORT` + the worker's parallel index, so each worker gets
+   * its own mailbox; on a free port when `SMTP_CATCHER_PORT` is unset.
+   * Messages left over by a previous test are dropped before each test
+   * that uses {@link MailFixtures.emailOtp}.
+   */
+  mailbox: SmtpCatcher;
+};
+
+/**
+ * `test` extended with {@link MailFixtures} and {@link MailWorkerFixtures}.
+ *
+ * @example
+ * ```ts
+ * import { test } from '@framework/mail/fixtures';
+ *
+ * test('login with email code', async ({ page, emailOtp }) => {
+ *   await page.getByRole('button', { name: 'Email me a code' }).click();
+ *   await page.getByLabel('Code').fill(await emailOtp.getCode('bob@example.com'));
+ * });
+ * ```
+ */
+export const test = base.extend<MailFixtures, MailWorkerFixtures>({
+  mailbox: [async ({}, use, workerInfo) => {
+    const basePort = Env.getPort("SMTP_CATCHER_PORT", false);
+    const mailbox = await SmtpCatcher.start(basePort === undefined ? 0 : basePort + workerInfo.parallelIndex);
+    await use(mailbox);
+    await mailbox.stop();
+  }, { scope: "worker" }],
+
+  emailOtp: async ({ mailbox }, use) => {
+    mailbox.clear();
+    await use(new EmailOTP(mailbox, {
+      codePattern: Env.getRegex("EMAIL_OTP_CODE_PATTERN", false),
+      linkPattern: Env.getRegex("EMAIL_OTP_LINK_PATTERN", false),
+    }));
+  },
+});
@@ -0,0 +1,117 @@
+/**
+ * A parsed email message, as received by the {@link SmtpCatcher}.
+ */
+export type ReceivedMail = {
+  /** Envelope sender (`MAIL FROM`). */
+  from: string;
+  /** Envelope recipients (`RCPT TO`), lower-cased. */
+  to: string[];
+  /** Decoded `Subject` header. */
+  subject: string;
+  /** All headers, lower-cased names, decoded values (last one wins). */
+  headers: Record<string, string>;
+  /** Concatenated `text/plain` parts. */
+  text: string;
+  /** Concatenated `text/html` parts. */
+  html: string;
+  /** The raw message as received after `DATA`. */
+  raw: string;
+  /** Time the message was received (epoch ms). */
+  receivedAt: number;
+};
+
+/**
+ * Split a raw MIME entity into its header block and body.
+ */
+function splitEntity(raw: string): { headers: Record<string, string>; body: string } {
+  const index = raw.search(/\r?\n\r?\n/);
+  const head = index === -1 ? raw : raw.slice(0, index);
+  const body = index === -1 ? "" : raw.slice(index).replace(/^\r?\n\r?\n/, "");
+
+  const headers: Record<string, string> = {};
+  for (const line of head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = decodeWords(line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+/**
+ * Decode RFC 2047 encoded words (`=?UTF-8?B?...?=`, `=?UTF-8?Q?...?=`) in a header value.
+ */
+function decodeWords(value: string): string {
+  return value.replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, charset: string, enc: string, text: string) => {
+    const bytes = enc.toLowerCase() === "b"
+      ? Buffer.from(text, "base64")
+      : Buffer.from(decodeQuotedPrintable(text.replace(/_/g, " ")), "binary");
+    return bytes.toString(/utf-?8/i.test(charset) ? "utf8" : "latin1");
+  });
+}
+
+/**
+ * Decode a quoted-printable string into a binary string (one char per byte).
+ */
+function decodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * Decode a body according to its `Content-Transfer-Encoding` and charset.
+ */
+function decodeBody(body: string, headers: Record<string, string>): string {
+  const encoding = (headers["content-transfer-encoding"] ?? "").toLowerCase();
+  const charset = /charset="?([^";]+)/i.exec(headers["content-type"] ?? "")?.[1] ?? "utf-8";
+  const buffer =
+    encoding === "base64" ? Buffer.from(body.replace(/\s+/g, ""), "base64") :
+    encoding === "quoted-printable" ? Buffer.from(decodeQuotedPrintable(body), "binary") :
+    Buffer.from(body, "utf8");
+  return buffer.toString(/utf-?8/i.test(charset) ? "utf8" : "latin1");
+}
+
+/**
+ * Collect the decoded `text/plain` and `text/html` parts of a MIME entity,
+ * walking nested `multipart/*` parts.
+ */
+function collectParts(raw: string, out: { text: string[]; html: string[] }): void {
+  const { headers, body } = splitEntity(raw);
+  const type = (headers["content-type"] ?? "text/plain").toLowerCase();
+
+  if (type.startsWith("multipart/")) {
+    const boundary = /boundary="?([^";]+)"?/i.exec(headers["content-type"])?.[1];
+    if (!boundary) return;
+    // Skip the preamble before the first boundary and stop at the closing one.
+    for (const part of body.split(`--${boundary}`).slice(1)) {
+      if (part.startsWith("--")) break;
+      collectParts(part.replace(/^[ \t]*\r?\n/, "").replace(/\r?\n$/, ""), out);
+    }
+  } else if (type.startsWith("text/html")) {
+    out.html.push(decodeBody(body, headers));
+  } else if (type.startsWith("text/")) {
+    out.text.push(decodeBody(body, headers));
+  }
+}
+
+/**
+ * Parse a raw RFC 5322 message into a {@link ReceivedMail}.
+ *
+ * Handles folded and encoded headers, quoted-printable / base64 bodies and
+ * nested multipart messages — enough for transactional emails such as
+ * one-time codes and magic links.
+ */
+export function parseMail(raw: string, envelope: { from: string; to: string[] }): ReceivedMail {
+  const { headers } = splitEntity(raw);
+  const parts = { text: [] as string[], html: [] as string[] };
+  collectParts(raw, parts);
+  return {
+    from: envelope.from,
+    to: envelope.to,
+    subject: headers["subject"] ?? "",
+    headers,
+    text: parts.text.join("\n"),
+    html: parts.html.join("\n"),
+    raw,
+    receivedAt: Date.now(),
+  };
+}
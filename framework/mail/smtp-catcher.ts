@@ -0,0 +1,230 @@
+import { EventEmitter } from "events";
+import * as net from "net";
+import { parseMail, ReceivedMail } from "./mail-parser";
+
+/**
+ * Criteria for {@link SmtpCatcher.waitForMessage}.
+ */
+export type MailQuery = {
+  /** Recipient address (case-insensitive). Any recipient if omitted. */
+  to?: string;
+  /** Only messages whose subject matches. */
+  subject?: string | RegExp;
+  /** How long to wait before failing. Defaults to 30 s. */
+  timeoutMs?: number;
+};
+
+/**
+ * Extract the address from an SMTP path such as `<bob@example.com> SIZE=123`.
+ */
+function pathAddress(arg: string): string {
+  return (/<([^>]*)>/.exec(arg)?.[1] ?? arg.trim().split(/\s+/)[0]).toLowerCase();
+}
+
+/**
+ * Minimal local SMTP server that accepts every message and keeps it in
+ * memory, so tests can read one-time codes and magic links sent by the
+ * application under test.
+ *
+ * Speaks just enough SMTP for typical mailer libraries: `HELO`/`EHLO`,
+ * `AUTH PLAIN`/`AUTH LOGIN` (any credentials), `MAIL`, `RCPT`, `DATA`,
+ * `RSET`, `NOOP` and `QUIT`. No TLS.
+ *
+ * @example
+ * ```ts
+ * const catcher = await SmtpCatcher.start(2525);
+ * // ... the app sends mail to localhost:2525
+ * const mail = await catcher.waitForMessage({ to: "bob@example.com" });
+ * await catcher.stop();
+ * ```
+ */
+export class SmtpCatcher {
+  /** Messages not yet returned by {@link SmtpCatcher.waitForMessage}, oldest first. */
+  private readonly inbox: ReceivedMail[] = [];
+  private readonly events = new EventEmitter();
+  private readonly sockets = new Set<net.Socket>();
+
+  private constructor(private readonly server: net.Server) {}
+
+  /**
+   * Start a catcher on `127.0.0.1`.
+   *
+   * @param port - Port to listen on. `0` (default) picks a free port, see {@link SmtpCatcher.port}.
+   */
+  static async start(port = 0): Promise<SmtpCatcher> {
+    const server = net.createServer();
+    const catcher = new SmtpCatcher(server);
+    server.on("connection", socket => catcher.handle(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => resolve());
+    });
+    return catcher;
+  }
+
+  /**
+   * The port the catcher listens on.
+   */
+  get port(): number {
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  /**
+   * Messages received and not yet consumed, oldest first.
+   */
+  get messages(): readonly ReceivedMail[] {
+    return [...this.inbox];
+  }
+
+  /**
+   * Wait for the next message matching `query` and consume it, so the same
+   * message is never returned twice. Messages that arrived before the call
+   * count as well.
+   *
+   * @throws If no matching message arrives within `timeoutMs`.
+   */
+  async waitForMessage(query: MailQuery = {}): Promise<ReceivedMail> {
+    const { timeoutMs = 30_000 } = query;
+    const take = (): ReceivedMail | undefined => {
+      const index = this.inbox.findIndex(m => this.matches(m, query));
+      return index === -1 ? undefined : this.inbox.splice(index, 1)[0];
+    };
+
+    const found = take();
+    if (found) return found;
+
+    return new Promise((resolve, reject) => {
+      const onMail = () => {
+        const mail = take();
+        if (!mail) return;
+        clearTimeout(timer);
+        this.events.off("mail", onMail);
+        resolve(mail);
+      };
+      const timer = setTimeout(() => {
+        this.events.off("mail", onMail);
+        reject(new Error(
+          `SmtpCatcher: No email${query.to ? ` to ${query.to}` : ""}` +
+          `${query.subject ? ` with subject ${query.subject}` : ""} within ${timeoutMs} ms`
+        ));
+      }, timeoutMs);
+      this.events.on("mail", onMail);
+    });
+  }
+
+  /**
+   * Drop every message received so far.
+   */
+  clear(): void {
+    this.inbox.length = 0;
+  }
+
+  /**
+   * Stop listening and close open connections.
+   */
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) socket.destroy();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private matches(mail: ReceivedMail, query: MailQuery): boolean {
+    if (query.to && !mail.to.includes(query.to.toLowerCase())) return false;
+    if (typeof query.subject === "string" && !mail.subject.includes(query.subject)) return false;
+    if (query.subject instanceof RegExp && !query.subject.test(mail.subject)) return false;
+    return true;
+  }
+
+  /**
+   * Run the SMTP dialogue for one connection.
+   */
+  private handle(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on("close", () => this.sockets.delete(socket));
+    socket.on("error", () => socket.destroy());
+    socket.setEncoding("utf8");
+
+    let from = "";
+    let to: string[] = [];
+    let data: string[] | undefined;
+    let authSteps = 0;
+    let buffer = "";
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    const onLine = (line: string) => {
+      if (data) {
+        if (line !== ".") {
+          data.push(line.startsWith("..") ? line.slice(1) : line);
+          return;
+        }
+        const mail = parseMail(data.join("\r\n"), { from, to });
+        data = undefined;
+        from = "";
+        to = [];
+        this.inbox.push(mail);
+        this.events.emit("mail", mail);
+        reply("250 OK: queued");
+        return;
+      }
+
+      if (authSteps > 0) {
+        authSteps--;
+        reply(authSteps ? "334 UGFzc3dvcmQ6" : "235 Authentication successful");
+        return;
+      }
+
+      const [verb, ...rest] = line.split(" ");
+      const arg = rest.join(" ");
+      switch (verb.toUpperCase()) {
+        case "EHLO":
+          reply("250-smtp-catcher");
+          reply("250-AUTH PLAIN LOGIN");
+          reply("250-8BITMIME");
+          return reply("250 SMTPUTF8");
+        case "HELO":
+          return reply("250 smtp-catcher");
+        case "AUTH": {
+          const [mechanism, initial] = arg.split(" ");
+          if (mechanism.toUpperCase() === "LOGIN") {
+            authSteps = initial ? 1 : 2;
+            return reply(initial ? "334 UGFzc3dvcmQ6" : "334 VXNlcm5hbWU6");
+          }
+          if (initial) return reply("235 Authentication successful");
+          authSteps = 1;
+          return reply("334 ");
+        }
+        case "MAIL":
+          from = pathAddress(arg.replace(/^FROM:/i, ""));
+          return reply("250 OK");
+        case "RCPT":
+          to.push(pathAddress(arg.replace(/^TO:/i, "")));
+          return reply("250 OK");
+        case "DATA":
+          if (!to.length) return reply("503 RCPT first");
+          data = [];
+          return reply("354 End data with <CR><LF>.<CR><LF>");
+        case "RSET":
+          from = "";
+          to = [];
+          return reply("250 OK");
+        case "NOOP":
+          return reply("250 OK");
+        case "QUIT":
+          reply("221 Bye");
+          return void socket.end();
+        default:
+          return reply("502 Command not implemented");
+      }
+    };
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let index: number;
+      while ((index = buffer.indexOf("\n")) !== -1) {
+        onLine(buffer.slice(0, index).replace(/\r$/, ""));
+        buffer = buffer.slice(index + 1);
+      }
+    });
+
+    reply("220 smtp-catcher ESMTP ready");
+  }
+}
@@ -0,0 +1,48 @@
+import type { Page } from "@playwright/test";
+import { GitHubHomePage } from "./github/github-home-page";
+import { GitHubLoginPage } from "./github/github-login-page";
+import { HerokuDashboardPage } from "./heroku/heroku-dashboard-page";
+import { HerokuHomePage } from "./heroku/heroku-home-page";
+import { HerokuLoginPage } from "./heroku/heroku-login-page";
+import { HerokuTwoFactorPage } from "./heroku/heroku-two-factor-page";
+
+/**
+ * Registry of the page objects of every application under test, bound to
+ * one `page`: specs navigate with `app.<application>.<page>`.
+ *
+ * Add a new application as a readonly property grouping its pages.
+ *
+ * @example
+ * ```ts
+ * const app = new App(page);
+ * await app.heroku.home.open();
+ * await app.heroku.home.goToLogin();
+ * await app.heroku.login.signIn(account);
+ * ```
+ */
+export class App {
+  readonly heroku: {
+    home: HerokuHomePage;
+    login: HerokuLoginPage;
+    twoFactor: HerokuTwoFactorPage;
+    dashboard: HerokuDashboardPage;
+  };
+
+  readonly github: {
+    home: GitHubHomePage;
+    login: GitHubLoginPage;
+  };
+
+  constructor(readonly page: Page) {
+    this.heroku = {
+      home: new HerokuHomePage(page),
+      login: new HerokuLoginPage(page),
+      twoFactor: new HerokuTwoFactorPage(page),
+      dashboard: new HerokuDashboardPage(page),
+    };
+    this.github = {
+      home: new GitHubHomePage(page),
+      login: new GitHubLoginPage(page),
+    };
+  }
+}
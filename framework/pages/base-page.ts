@@ -0,0 +1,66 @@
+import { expect, Locator, Page } from "@playwright/test";
+
+/**
+ * Base class of all page objects: navigation, readiness and URL / title
+ * checks. Subclasses declare where the page lives and which element shows
+ * that it is ready, and expose the page's locators and actions.
+ *
+ * @example
+ * ```ts
+ * class SettingsPage extends BasePage {
+ *   readonly url = "https://dashboard.heroku.com/account";
+ *   readonly ready = this.page.getByRole("heading", { name: "Account" });
+ * }
+ *
+ * await new SettingsPage(page).open();
+ * ```
+ */
+export abstract class BasePage {
+  /** URL opened by {@link BasePage.open}: absolute, or relative to `baseURL`. */
+  abstract readonly url: string;
+
+  /** Element that is visible once the page can be used. */
+  abstract readonly ready: Locator;
+
+  /** URL of the page when it is displayed, if it differs from `url` (e.g. query strings). */
+  readonly urlPattern?: string | RegExp;
+
+  /** Expected document title, checked by {@link BasePage.expectTitle}. */
+  readonly title?: string | RegExp;
+
+  constructor(readonly page: Page) {}
+
+  /**
+   * Navigate to the page and wait until it is ready.
+   */
+  async open(): Promise<this> {
+    await this.page.goto(this.url);
+    await this.waitUntilReady();
+    return this;
+  }
+
+  /**
+   * Wait until the {@link BasePage.ready} element is visible.
+   */
+  async waitUntilReady(timeout?: number): Promise<this> {
+    await expect(this.ready).toBeVisible({ timeout });
+    return this;
+  }
+
+  /**
+   * Assert that the browser shows this page's URL.
+   */
+  async expectUrl(): Promise<void> {
+    await expect(this.page).toHaveURL(this.urlPattern ?? this.url);
+  }
+
+  /**
+   * Assert the document title.
+   *
+   * @throws If the page declares no `title`.
+   */
+  async expectTitle(): Promise<void> {
+    if (!this.title) throw new Error(`${this.constructor.name}: No title declared`);
+    await expect(this.page).toHaveTitle(this.title);
+  }
+}
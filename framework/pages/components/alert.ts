@@ -0,0 +1,27 @@
+import { expect } from "@playwright/test";
+import { BaseComponent } from "./base-component";
+
+/**
+ * An inline alert or flash message (`role="alert"`).
+ *
+ * @example
+ * ```ts
+ * const alert = new Alert(page.getByRole("alert"));
+ * await alert.expectText("Incorrect username or password.");
+ * ```
+ */
+export class Alert extends BaseComponent {
+  /**
+   * The alert's visible text, trimmed.
+   */
+  async text(): Promise<string> {
+    return (await this.root.innerText()).trim();
+  }
+
+  /**
+   * Assert that the alert is displayed and contains `text`.
+   */
+  async expectText(text: string | RegExp): Promise<void> {
+    await expect(this.root).toContainText(text);
+  }
+}
@@ -0,0 +1,23 @@
+import { expect, Locator, Page } from "@playwright/test";
+
+/**
+ * Base class of reusable UI components. A component is scoped to a `root`
+ * element; its locators are searched inside it.
+ */
+export abstract class BaseComponent {
+  constructor(readonly root: Locator) {}
+
+  /**
+   * The page the component belongs to.
+   */
+  get page(): Page {
+    return this.root.page();
+  }
+
+  /**
+   * Assert that the component is displayed.
+   */
+  async expectVisible(): Promise<void> {
+    await expect(this.root).toBeVisible();
+  }
+}
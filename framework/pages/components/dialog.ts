@@ -0,0 +1,42 @@
+import { expect, Locator } from "@playwright/test";
+import { BaseComponent } from "./base-component";
+
+/**
+ * A modal dialog (`role="dialog"` or `"alertdialog"`).
+ *
+ * @example
+ * ```ts
+ * const dialog = new Dialog(page.getByRole("dialog", { name: "Delete app" }));
+ * await dialog.confirm("Delete");
+ * await dialog.expectClosed();
+ * ```
+ */
+export class Dialog extends BaseComponent {
+  /**
+   * The button named `name` inside the dialog.
+   */
+  button(name: string): Locator {
+    return this.root.getByRole("button", { name, exact: true });
+  }
+
+  /**
+   * Click the confirming button.
+   */
+  async confirm(name = "OK"): Promise<void> {
+    await this.button(name).click();
+  }
+
+  /**
+   * Dismiss the dialog with its closing button.
+   */
+  async close(name = "Close"): Promise<void> {
+    await this.button(name).click();
+  }
+
+  /**
+   * Assert that the dialog is gone.
+   */
+  async expectClosed(): Promise<void> {
+    await expect(this.root).toBeHidden();
+  }
+}
@@ -0,0 +1,44 @@
+import { Locator } from "@playwright/test";
+import { BaseComponent } from "./base-component";
+
+/**
+ * A form whose fields are found by their accessible name (label).
+ *
+ * @example
+ * ```ts
+ * const form = new Form(page.locator("form"));
+ * await form.fill({ "Email address": "bob@example.com", "Password": "secret" });
+ * await form.submit("Log In");
+ * ```
+ */
+export class Form extends BaseComponent {
+  /**
+   * The text field labelled `name`.
+   */
+  field(name: string): Locator {
+    return this.root.getByRole("textbox", { name });
+  }
+
+  /**
+   * The button named `name`.
+   */
+  button(name: string): Locator {
+    return this.root.getByRole("button", { name, exact: true });
+  }
+
+  /**
+   * Fill text fields, keyed by label, in order.
+   */
+  async fill(values: Record<string, string>): Promise<void> {
+    for (const [name, value] of Object.entries(values)) {
+      await this.field(name).fill(value);
+    }
+  }
+
+  /**
+   * Click the submit button named `name`.
+   */
+  async submit(name: string): Promise<void> {
+    await this.button(name).click();
+  }
+}
@@ -0,0 +1,29 @@
+import { test as base } from "../security/fixtures";
+import { App } from "./app";
+
+/**
+ * Fixtures provided by the pages layer.
+ */
+export type PageFixtures = {
+  /**
+   * The {@link App} page registry, bound to the test's `page`.
+   *
+   * @example
+   * ```ts
+   * test('title', async ({ app }) => {
+   *   await app.github.home.open();
+   *   await app.github.home.expectTitle();
+   * });
+   * ```
+   */
+  app: App;
+};
+
+/**
+ * `test` from the security layer, extended with {@link PageFixtures}.
+ */
+export const test = base.extend<PageFixtures>({
+  app: async ({ page }, use) => {
+    await use(new App(page));
+  },
+});
@@ -0,0 +1,18 @@
+import { BasePage } from "../base-page";
+
+/**
+ * GitHub home page.
+ */
+export class GitHubHomePage extends BasePage {
+  readonly url = "https://github.com/";
+  readonly title = /GitHub/;
+  readonly signInLink = this.page.getByRole("link", { name: "Sign in" });
+  readonly ready = this.signInLink;
+
+  /**
+   * Click "Sign in", which leads to {@link GitHubLoginPage}.
+   */
+  async goToSignIn(): Promise<void> {
+    await this.signInLink.click();
+  }
+}
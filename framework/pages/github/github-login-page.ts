@@ -0,0 +1,21 @@
+import { BasePage } from "../base-page";
+import { Alert } from "../components/alert";
+import { Form } from "../components/form";
+
+/**
+ * GitHub sign-in form.
+ */
+export class GitHubLoginPage extends BasePage {
+  readonly url = "https://github.com/login";
+  readonly form = new Form(this.page.locator("form").filter({ has: this.page.getByRole("textbox", { name: "Password" }) }));
+  readonly alert = new Alert(this.page.getByRole("alert"));
+  readonly ready = this.form.field("Username or email address");
+
+  /**
+   * Fill in the credentials and submit them.
+   */
+  async signIn(credentials: { username: string; password: string }): Promise<void> {
+    await this.form.fill({ "Username or email address": credentials.username, "Password": credentials.password });
+    await this.form.submit("Sign in");
+  }
+}
@@ -0,0 +1,19 @@
+import { expect } from "@playwright/test";
+import { BasePage } from "../base-page";
+
+/**
+ * Heroku dashboard, shown after a successful login.
+ */
+export class HerokuDashboardPage extends BasePage {
+  readonly url = "https://dashboard.heroku.com/apps";
+  readonly urlPattern = /dashboard\.heroku\.com/;
+  readonly welcome = this.page.getByText("Welcome to Heroku");
+  readonly ready = this.welcome;
+
+  /**
+   * Assert that the welcome message is shown (the login went through).
+   */
+  async expectWelcome(): Promise<void> {
+    await expect(this.welcome).toBeVisible({ timeout: 20000 });
+  }
+}
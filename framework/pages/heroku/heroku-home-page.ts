@@ -0,0 +1,17 @@
+import { BasePage } from "../base-page";
+
+/**
+ * Heroku marketing home page.
+ */
+export class HerokuHomePage extends BasePage {
+  readonly url = "https://www.heroku.com/";
+  readonly loginButton = this.page.getByRole("button", { name: "Login" });
+  readonly ready = this.loginButton;
+
+  /**
+   * Click "Login", which leads to {@link HerokuLoginPage}.
+   */
+  async goToLogin(): Promise<void> {
+    await this.loginButton.click();
+  }
+}
@@ -0,0 +1,44 @@
+import type { Account } from "../../security/accounts";
+import { BasePage } from "../base-page";
+import { Alert } from "../components/alert";
+import { Form } from "../components/form";
+import { HerokuDashboardPage } from "./heroku-dashboard-page";
+import { HerokuTwoFactorPage } from "./heroku-two-factor-page";
+
+/**
+ * Heroku login form (`id.heroku.com`).
+ */
+export class HerokuLoginPage extends BasePage {
+  readonly url = "https://id.heroku.com/login";
+  readonly urlPattern = /id\.heroku\.com\/login/;
+  readonly form = new Form(this.page.locator("form").filter({ has: this.page.getByRole("textbox", { name: "Password" }) }));
+  readonly alert = new Alert(this.page.getByRole("alert"));
+  readonly ready = this.form.field("Email address");
+
+  /**
+   * Fill in the email address and password and submit them.
+   */
+  async submitCredentials(username: string, password: string): Promise<void> {
+    await this.form.fill({ "Email address": username, "Password": password });
+    await this.form.submit("Log In");
+  }
+
+  /**
+   * Complete the whole login from this form: credentials, then the TOTP
+   * code of the account's authenticator (if it has one), until the
+   * dashboard is shown.
+   *
+   * @example
+   * ```ts
+   * await app.heroku.home.goToLogin();
+   * await app.heroku.login.signIn(account);
+   * ```
+   */
+  async signIn(account: Account): Promise<void> {
+    await this.submitCredentials(account.username, account.password);
+    if (account.otp) {
+      await new HerokuTwoFactorPage(this.page).verify(await account.otp.getFreshCode({ minRemainingMs: 5000 }));
+    }
+    await new HerokuDashboardPage(this.page).expectWelcome();
+  }
+}
@@ -0,0 +1,20 @@
+import { BasePage } from "../base-page";
+import { Form } from "../components/form";
+
+/**
+ * Heroku second step of the login: the authenticator code.
+ */
+export class HerokuTwoFactorPage extends BasePage {
+  readonly url = "https://id.heroku.com/login/verify";
+  readonly form = new Form(this.page.locator("form").filter({ has: this.page.getByRole("button", { name: "Verify" }) }));
+  readonly codeField = this.form.field("Verification Code");
+  readonly ready = this.codeField;
+
+  /**
+   * Enter the code and submit it.
+   */
+  async verify(code: string): Promise<void> {
+    await this.codeField.fill(code);
+    await this.form.submit("Verify");
+  }
+}
@@ -0,0 +1,115 @@
+import type { FullResult, Reporter, TestCase, TestResult } from "@playwright/test/reporter";
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import { Env } from "../env/env";
+import { ENV_ACCESS_ATTACHMENT, EnvAccessSummary } from "../env/fixtures";
+
+/**
+ * Options accepted by {@link EnvAuditReporter}.
+ */
+export type EnvAuditReporterOptions = {
+  /** Where to write the JSON summary. Defaults to `test-results/env-audit.json`. */
+  outputFile?: string;
+  /**
+   * A variable read by at least this many tests is listed as "widely used".
+   * Defaults to `5`.
+   */
+  manyTestsThreshold?: number;
+};
+
+/**
+ * Run-level usage of a single variable.
+ */
+type KeyUsage = {
+  tests: Set<string>;
+  outcomes: Record<string, number>;
+};
+
+/**
+ * Whether a record of an `env-access` attachment has the expected shape.
+ */
+function isAccessSummary(value: unknown): value is EnvAccessSummary {
+  const access = value as Partial<EnvAccessSummary> | null;
+  return typeof access?.key === "string" && typeof access.outcome === "string" && typeof access.count === "number";
+}
+
+/**
+ * Reporter that aggregates the per-test `env-access` attachments written by
+ * the `envAudit` fixture into a run-level summary:
+ * - every variable read, with the number of tests and lookup outcomes,
+ * - variables defined in the `.env` files or `.env.example` that no test read,
+ * - variables read by many tests.
+ *
+ * The summary is printed at the end of the run and written as JSON.
+ * Records that are not shaped like an {@link EnvAccessSummary} are skipped.
+ *
+ * ```ts
+ * reporter: [['./framework/reporters/env-audit-reporter.ts', { manyTestsThreshold: 3 }]],
+ * ```
+ */
+export default class EnvAuditReporter implements Reporter {
+  private readonly usage = new Map<string, KeyUsage>();
+  private readonly outputFile: string;
+  private readonly manyTestsThreshold: number;
+
+  constructor(options: EnvAuditReporterOptions = {}) {
+    this.outputFile = options.outputFile ?? path.join("test-results", "env-audit.json");
+    this.manyTestsThreshold = options.manyTestsThreshold ?? 5;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const attachment = result.attachments.find(a => a.name === ENV_ACCESS_ATTACHMENT);
+    if (!attachment?.body) return;
+
+    let accesses: unknown;
+    try {
+      accesses = JSON.parse(attachment.body.toString("utf8"));
+    } catch {
+      // Not written by the envAudit fixture: nothing to count.
+      return;
+    }
+    if (!Array.isArray(accesses)) return;
+    for (const access of accesses.filter(isAccessSummary)) {
+      const usage = this.usage.get(access.key) ?? { tests: new Set<string>(), outcomes: {} };
+      usage.tests.add(test.id);
+      usage.outcomes[access.outcome] = (usage.outcomes[access.outcome] ?? 0) + access.count;
+      this.usage.set(access.key, usage);
+    }
+  }
+
+  onEnd(_result: FullResult): void {
+    const read = [...this.usage.entries()]
+      .map(([key, usage]) => ({ key, tests: usage.tests.size, outcomes: usage.outcomes }))
+      .sort((a, b) => b.tests - a.tests || a.key.localeCompare(b.key));
+    const unused = this.declaredKeys().filter(key => !this.usage.has(key));
+    const widelyUsed = read.filter(r => r.tests >= this.manyTestsThreshold).map(r => r.key);
+
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(
+      this.outputFile,
+      JSON.stringify({ profile: Env.profile ?? null, read, unused, widelyUsed }, null, 2)
+    );
+
+    console.log(`\nEnv audit (profile: ${Env.profile ?? "default"}) → ${this.outputFile}`);
+    console.log(`  Read:        ${read.map(r => `${r.key} (${r.tests})`).join(", ") || "-"}`);
+    console.log(`  Unused:      ${unused.join(", ") || "-"}`);
+    console.log(`  Widely used: ${widelyUsed.join(", ") || "-"}`);
+  }
+
+  printsToStdio(): boolean {
+    return true;
+  }
+
+  /**
+   * Variables the project declares: those set by the loaded `.env` files
+   * plus those documented in `.env.example`.
+   */
+  private declaredKeys(): string[] {
+    const keys = new Set(Env.fileKeys());
+    if (fs.existsSync(".env.example")) {
+      for (const key of Object.keys(dotenv.parse(fs.readFileSync(".env.example")))) keys.add(key);
+    }
+    return [...keys].sort();
+  }
+}
@@ -0,0 +1,142 @@
+import type { Reporter, TestCase, TestResult, TestStep } from "@playwright/test/reporter";
+import * as OTPAuth from "otpauth";
+import { ClockSkew } from "../security/clock-skew";
+import { registerKnownSecrets } from "../security/known-secrets";
+import { Secrets } from "../security/secrets";
+import {
+  consumeTransientSecrets,
+  redactAnnotations,
+  redactAttachments,
+  redactErrors,
+  REDACTION_REPORTER_VAR,
+} from "../security/redaction";
+
+/**
+ * Options of the {@link RedactionReporter}, given in `playwright.config.ts`.
+ */
+export type RedactionReporterOptions = {
+  /**
+   * Keep trace attachments in the report. Default = `false`: traces are
+   * binary archives that cannot be masked (typed passwords, request
+   * bodies), so they are left out of the report, which CI publishes. They
+   * stay in `test-results/` for local debugging.
+   */
+  keepTraces?: boolean;
+  /**
+   * TOTP steps on each side of the test's duration whose codes are masked,
+   * as accepted by the verifier. Default = 1 (the `OTPVerifier` default).
+   */
+  otpWindow?: number;
+};
+
+/**
+ * Reporter that masks registered secrets in every test result before the
+ * reporters listed after it (e.g. `html`) see it.
+ *
+ * It must be listed **before** the reporters it protects:
+ *
+ * ```ts
+ * reporter: [
+ *   ['./framework/reporters/redaction-reporter.ts'],
+ *   ['html', { open: 'never' }],
+ * ],
+ * ```
+ *
+ * Secrets are known in the runner process through `registerKnownSecrets`,
+ * the same registration the workers run (env keys marked secret, account
+ * passwords and OTP URIs). Codes generated inside the workers (OTP, email,
+ * SMS) are handed over by the `redactSecrets` fixture in an attachment that
+ * is removed before the next reporters see it. For tests without that
+ * fixture, the codes of every secret `otpauth://totp/...` value that were
+ * valid during the test (on the server's clock, see {@link ClockSkew}) are
+ * derived and masked as well.
+ *
+ * Masked: step titles and errors, test errors, stdout/stderr, text
+ * attachments and annotations. Output is also masked in the workers before
+ * Playwright captures it (see `maskStdio`), since it is streamed to every
+ * reporter unchanged. Trace attachments are removed from the report unless
+ * `keepTraces` is set; videos and screenshots cannot be rewritten either.
+ */
+export default class RedactionReporter implements Reporter {
+  private readonly keepTraces: boolean;
+  private readonly otpWindow: number;
+
+  constructor(options: RedactionReporterOptions = {}) {
+    this.keepTraces = options.keepTraces ?? false;
+    this.otpWindow = options.otpWindow ?? 1;
+    // Inherited by the workers, forked after the reporters are created.
+    process.env[REDACTION_REPORTER_VAR] = "1";
+  }
+
+  onBegin(): void {
+    registerKnownSecrets();
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    consumeTransientSecrets(result.attachments);
+    this.registerOtpCodes(result);
+
+    if (!this.keepTraces) this.dropTraces(result);
+
+    redactErrors(result.errors);
+    if (result.error) redactErrors([result.error]);
+    this.redactSteps(result.steps);
+    redactAttachments(result.attachments);
+    redactAnnotations(test.annotations);
+    result.stdout = result.stdout.map(chunk => Secrets.mask(chunk.toString()));
+    result.stderr = result.stderr.map(chunk => Secrets.mask(chunk.toString()));
+    Secrets.clearTransient();
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  /**
+   * Remove trace attachments in place (other reporters may hold the array).
+   */
+  private dropTraces(result: TestResult): void {
+    for (let i = result.attachments.length - 1; i >= 0; i--) {
+      if (result.attachments[i].name === "trace") result.attachments.splice(i, 1);
+    }
+  }
+
+  /**
+   * Mask step titles, errors and attachments recursively.
+   */
+  private redactSteps(steps: TestStep[]): void {
+    for (const step of steps) {
+      step.title = Secrets.mask(step.title);
+      if (step.error) redactErrors([step.error]);
+      redactAttachments(step.attachments);
+      this.redactSteps(step.steps);
+    }
+  }
+
+  /**
+   * Register the TOTP codes that were valid while the test ran, for every
+   * secret otpauth URI: on the server's clock (the measured skew applied,
+   * as in the workers), `otpWindow` periods on each side. They are
+   * transient: cleared once this test's result is masked.
+   */
+  private registerOtpCodes(result: TestResult): void {
+    for (const value of Secrets.all()) {
+      if (!value.startsWith("otpauth://totp/")) continue;
+      let totp: OTPAuth.HOTP | OTPAuth.TOTP;
+      try {
+        totp = OTPAuth.URI.parse(value);
+      } catch {
+        continue;
+      }
+      if (!(totp instanceof OTPAuth.TOTP)) continue;
+
+      const period = totp.period * 1000;
+      const begin = result.startTime.getTime() + ClockSkew.offsetMs;
+      const start = begin - this.otpWindow * period;
+      const end = begin + result.duration + this.otpWindow * period;
+      for (let timestamp = start; timestamp <= end; timestamp += period) {
+        Secrets.registerTransient(totp.generate({ timestamp }));
+      }
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import * as fs from "fs";
+import { Env } from "../env/env";
+import { Logger } from "../logger/logger";
+import { isAlive, withFileLock, writeFileAtomic } from "../utils/file-lock";
+import { Accounts } from "./accounts";
+
+/**
+ * One entry of the lease file: who holds an account.
+ */
+export type AccountLease = {
+  /** Leased account name. */
+  name: string;
+  /** Process holding the lease; leases of dead processes are reclaimed. */
+  pid: number;
+  /** Free-form description of the holder, e.g. `worker 2` or a test title. */
+  owner: string;
+  /** When the lease was taken (epoch ms). */
+  since: number;
+};
+
+/**
+ * Options for {@link AccountPool}.
+ */
+export type AccountPoolOptions = {
+  /**
+   * Names of the interchangeable accounts to lease from.
+   * Defaults to `ACCOUNT_POOL` (comma-separated), else every configured account.
+   */
+  accounts?: string[];
+  /**
+   * Lease file shared by every process. Defaults to `ACCOUNT_POOL_FILE`,
+   * else `test-results/.accounts/leases.json`.
+   */
+  file?: string;
+  /**
+   * How long {@link AccountPool.acquire} waits for an account when all are
+   * leased; `0` fails at once. Defaults to `ACCOUNT_POOL_WAIT`, else 60 s.
+   */
+  waitMs?: number;
+};
+
+const log = Logger.for("account-pool");
+
+/**
+ * Leases interchangeable test accounts so that parallel workers never log
+ * into the same account at the same time (racing on the same TOTP code or
+ * invalidating each other's sessions).
+ *
+ * Leases are kept in a JSON file updated under a file lock, so the pool is
+ * shared by every Playwright worker on the machine. A lease whose process
+ * is gone (e.g. a crashed worker) is reclaimed automatically.
+ *
+ * @example
+ * ```ts
+ * const pool = new AccountPool({ accounts: ["mfa-1", "mfa-2", "mfa-3"] });
+ * const lease = await pool.acquire("worker 0");
+ * try {
+ *   const account = Accounts.get(lease.name);
+ * } finally {
+ *   await pool.release(lease.name);
+ * }
+ * ```
+ */
+export class AccountPool {
+  private readonly accounts: string[];
+  private readonly file: string;
+  private readonly waitMs: number;
+
+  /** Accounts leased by this process. */
+  private readonly held = new Set<string>();
+
+  /** Lease kept for the lifetime of this process, see {@link AccountPool.acquireForWorker}. */
+  private workerLease?: Promise<AccountLease>;
+
+  constructor(opts: AccountPoolOptions = {}) {
+    this.accounts = opts.accounts ?? Env.getList("ACCOUNT_POOL", ",", false) ?? Accounts.names();
+    this.file = opts.file ?? Env.getString("ACCOUNT_POOL_FILE", false) ?? "test-results/.accounts/leases.json";
+    this.waitMs = opts.waitMs ?? Env.getDuration("ACCOUNT_POOL_WAIT", false, 60_000);
+  }
+
+  /**
+   * Number of accounts in the pool.
+   */
+  get size(): number {
+    return this.accounts.length;
+  }
+
+  /**
+   * Lease a free account, waiting up to `waitMs` for one to be released.
+   *
+   * @param owner - Description of the holder, recorded in the lease file.
+   * @returns The lease; pass its `name` to {@link Accounts.get}.
+   * @throws If the pool is empty, or every account is still leased after `waitMs`.
+   */
+  async acquire(owner: string): Promise<AccountLease> {
+    if (!this.accounts.length) {
+      throw new Error("AccountPool: No accounts to lease. Configure TEST_ACCOUNTS (and optionally ACCOUNT_POOL).");
+    }
+    const deadline = Date.now() + this.waitMs;
+    let waiting = false;
+    for (;;) {
+      const { result: lease, leases } = await this.update(leases => {
+        const name = this.accounts.find(a => !leases[a]);
+        if (name) leases[name] = { name, pid: process.pid, owner, since: Date.now() };
+        return name ? leases[name] : undefined;
+      });
+      if (lease) {
+        this.held.add(lease.name);
+        return lease;
+      }
+
+      if (Date.now() >= deadline) {
+        const holders = Object.values(leases).map(l => `${l.name} (${l.owner}, pid ${l.pid})`).join(", ");
+        throw new Error(
+          `AccountPool: All ${this.accounts.length} account(s) are leased after waiting ${this.waitMs} ms: ${holders}. ` +
+          `Add accounts to ACCOUNT_POOL or run fewer workers.`
+        );
+      }
+      if (!waiting) log.info(`All accounts are leased, ${owner} is waiting for one`);
+      waiting = true;
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+
+  /**
+   * Lease an account for the lifetime of this process (a Playwright worker):
+   * the first call acquires it, later calls return the same lease. It is
+   * released by {@link AccountPool.releaseAll}, or reclaimed once the
+   * process is gone.
+   */
+  async acquireForWorker(owner: string): Promise<AccountLease> {
+    this.workerLease ??= this.acquire(owner);
+    try {
+      return await this.workerLease;
+    } catch (e) {
+      this.workerLease = undefined;
+      throw e;
+    }
+  }
+
+  /**
+   * Release an account leased by this process. Releasing an account that
+   * is not held is a no-op.
+   */
+  async release(name: string): Promise<void> {
+    this.held.delete(name);
+    await this.update(leases => {
+      if (leases[name]?.pid === process.pid) delete leases[name];
+    });
+  }
+
+  /**
+   * Release every account leased by this process.
+   */
+  async releaseAll(): Promise<void> {
+    this.workerLease = undefined;
+    for (const name of [...this.held]) await this.release(name);
+  }
+
+  /**
+   * Current leases, without the ones held by dead processes.
+   */
+  async leases(): Promise<AccountLease[]> {
+    const { leases } = await this.update(() => undefined);
+    return Object.values(leases);
+  }
+
+  /**
+   * Read the lease file under the lock, drop leases of dead processes, let
+   * `fn` change the leases, and write them back.
+   */
+  private async update<T>(fn: (leases: Record<string, AccountLease>) => T): Promise<{ result: T; leases: Record<string, AccountLease> }> {
+    return withFileLock(`${this.file}.lock`, () => {
+      const leases = this.read();
+      for (const [name, lease] of Object.entries(leases)) {
+        if (!isAlive(lease.pid)) {
+          log.warn(`Reclaiming account ${name} from ${lease.owner} (pid ${lease.pid} is gone)`);
+          delete leases[name];
+        }
+      }
+      const result = fn(leases);
+      writeFileAtomic(this.file, JSON.stringify(leases, null, 2));
+      return { result, leases };
+    });
+  }
+
+  /**
+   * Read all leases, treating a missing file as empty.
+   */
+  private read(): Record<string, AccountLease> {
+    if (!fs.existsSync(this.file)) return {};
+    try {
+      return JSON.parse(fs.readFileSync(this.file, "utf8"));
+    } catch (e) {
+      throw new Error(`AccountPool: Corrupt lease file ${this.file}: ${(e as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { Env } from "../env/env";
+import { decrypt, isEncrypted, readVaultKey, VAULT_KEY_VAR } from "../env/vault";
+import { OTP } from "./otp";
+import { Secrets } from "./secrets";
+
+/**
+ * Name of the account built from the legacy `HEROKU_USERNAME` /
+ * `HEROKU_PWD` / `HEROKU_OTP_URI` variables, and the default of {@link Accounts.get}.
+ */
+export const DEFAULT_ACCOUNT = "default";
+
+/**
+ * Credentials of one test account, as configured in `TEST_ACCOUNTS`.
+ */
+export type AccountConfig = {
+  username: string;
+  password: string;
+  /** `otpauth://` URI of the account's authenticator, if it has 2FA. */
+  otpUri?: string;
+  /** One-time 2FA recovery codes, see `RecoveryCodes.forAccount`. */
+  recoveryCodes?: string[];
+};
+
+/**
+ * A named test account, with a ready {@link OTP} instance when it has an `otpUri`.
+ */
+export type Account = AccountConfig & {
+  name: string;
+  otp?: OTP;
+};
+
+/**
+ * Registry of named test accounts (admin, readonly, mfa-user, ...), so
+ * tests do not all share one identity.
+ *
+ * Accounts are read from `TEST_ACCOUNTS`, a JSON object keyed by account name:
+ * ```json
+ * { "admin": { "username": "admin@example.com", "password": "...", "otpUri": "otpauth://totp/..." },
+ *   "readonly": { "username": "viewer@example.com", "password": "..." } }
+ * ```
+ * The JSON can also live in a file named by `TEST_ACCOUNTS_FILE`, in clear
+ * or encrypted with `npm run env:vault -- encrypt accounts.json` (decrypted
+ * with the same key as the `.vault` env files).
+ *
+ * The legacy `HEROKU_USERNAME` / `HEROKU_PWD` / `HEROKU_OTP_URI` variables,
+ * when set, provide the {@link DEFAULT_ACCOUNT} unless `TEST_ACCOUNTS`
+ * defines one. Passwords and OTP URIs are registered with {@link Secrets}.
+ *
+ * @example
+ * ```ts
+ * const admin = Accounts.get("admin");
+ * await page.getByLabel("Email").fill(admin.username);
+ * await page.getByLabel("Password").fill(admin.password);
+ * await page.getByLabel("Code").fill(await admin.otp!.getFreshCode());
+ * ```
+ */
+export class Accounts {
+  /** Parsed accounts, with the configuration they were parsed from. */
+  private static cache?: { source: string; accounts: Map<string, Account> };
+
+  static {
+    Env.secret("TEST_ACCOUNTS");
+  }
+
+  /**
+   * Get an account by name.
+   *
+   * @param name - Account name. Defaults to {@link DEFAULT_ACCOUNT}.
+   * @throws If the account is not configured, or the configuration is invalid.
+   */
+  static get(name = DEFAULT_ACCOUNT): Account {
+    const account = this.load().get(name);
+    if (!account) {
+      throw new Error(
+        `Accounts: Unknown account "${name}" (configured: ${this.names().join(", ") || "none"}). ` +
+        `Add it to TEST_ACCOUNTS.`
+      );
+    }
+    return account;
+  }
+
+  /**
+   * Whether an account with this name is configured.
+   */
+  static has(name: string): boolean {
+    return this.load().has(name);
+  }
+
+  /**
+   * Names of all configured accounts.
+   */
+  static names(): string[] {
+    return [...this.load().keys()];
+  }
+
+  /**
+   * All configured accounts.
+   */
+  static all(): Account[] {
+    return [...this.load().values()];
+  }
+
+  /**
+   * Forget the parsed accounts; they are read again on next access.
+   */
+  static reload(): void {
+    this.cache = undefined;
+  }
+
+  /**
+   * Parse the configured accounts, reusing the previous result while the
+   * configuration (possibly overridden by `Env.override`) is unchanged.
+   */
+  private static load(): Map<string, Account> {
+    const raw = Env.getString("TEST_ACCOUNTS", false);
+    const legacy = {
+      username: Env.getString("HEROKU_USERNAME", false),
+      password: Env.getString("HEROKU_PWD", false),
+      otpUri: Env.getString("HEROKU_OTP_URI", false),
+    };
+    const source = JSON.stringify([raw, legacy]);
+    if (this.cache?.source === source) return this.cache.accounts;
+
+    const configs: Record<string, AccountConfig> = raw ? this.parse(raw) : {};
+    if (!configs[DEFAULT_ACCOUNT] && legacy.username && legacy.password) {
+      configs[DEFAULT_ACCOUNT] = { username: legacy.username, password: legacy.password, otpUri: legacy.otpUri || undefined };
+    }
+
+    const accounts = new Map<string, Account>();
+    for (const [name, config] of Object.entries(configs)) {
+      Secrets.register(config.password);
+      Secrets.register(config.otpUri);
+      config.recoveryCodes?.forEach(code => Secrets.register(code));
+      accounts.set(name, { ...config, name, otp: config.otpUri ? OTP.fromUri(config.otpUri) : undefined });
+    }
+    this.cache = { source, accounts };
+    return accounts;
+  }
+
+  /**
+   * Decrypt (if needed), parse and check the `TEST_ACCOUNTS` JSON.
+   *
+   * @throws If it cannot be decrypted, is not valid JSON, or an account lacks a field.
+   */
+  private static parse(raw: string): Record<string, AccountConfig> {
+    let text = raw;
+    if (isEncrypted(text)) {
+      const key = readVaultKey({
+        [VAULT_KEY_VAR]: Env.getString(VAULT_KEY_VAR, false),
+        [`${VAULT_KEY_VAR}_FILE`]: Env.getString(`${VAULT_KEY_VAR}_FILE`, false),
+      });
+      if (!key) throw new Error("Accounts: TEST_ACCOUNTS is encrypted but no vault key is configured (ENV_VAULT_KEY)");
+      text = decrypt(text, key);
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (e) {
+      throw new Error(`Accounts: TEST_ACCOUNTS is not valid JSON: ${(e as Error).message}`);
+    }
+    if (!json || typeof json !== "object" || Array.isArray(json)) {
+      throw new Error("Accounts: TEST_ACCOUNTS must be a JSON object keyed by account name");
+    }
+
+    for (const [name, config] of Object.entries(json)) {
+      const problems = [
+        typeof config?.username !== "string" && "username",
+        typeof config?.password !== "string" && "password",
+        config?.otpUri !== undefined && typeof config.otpUri !== "string" && "otpUri",
+        config?.recoveryCodes !== undefined &&
+          !(Array.isArray(config.recoveryCodes) && config.recoveryCodes.every((c: unknown) => typeof c === "string")) &&
+          "recoveryCodes",
+      ].filter(Boolean);
+      if (problems.length) throw new Error(`Accounts: Account "${name}" has a missing or invalid ${problems.join(", ")}`);
+    }
+    return json as Record<string, AccountConfig>;
+  }
+}
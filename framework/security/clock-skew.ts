@@ -0,0 +1,218 @@
+import { test } from "@playwright/test";
+import { Env } from "../env/env";
+import { Logger } from "../logger/logger";
+
+/**
+ * Environment variable holding a known offset (ms). Set by
+ * {@link ClockSkew.calibrate} so workers started later inherit it.
+ */
+export const SKEW_VAR = "OTP_CLOCK_SKEW_MS";
+
+/**
+ * Result of a clock-skew measurement.
+ */
+export type SkewMeasurement = {
+  /** Server time minus local time, in ms (positive: the local clock is behind). */
+  offsetMs: number;
+  /** Worst-case error of the estimate, in ms. */
+  accuracyMs: number;
+  /** Where the server time was read from. */
+  source: string;
+};
+
+/**
+ * Options for {@link ClockSkew.calibrate}.
+ */
+export type SkewOptions = {
+  /**
+   * URL whose HTTP `Date` response header is used (second resolution).
+   * Defaults to `OTP_SKEW_URL`.
+   */
+  url?: string;
+  /**
+   * Time endpoint returning the server time with ms resolution, as a number
+   * (epoch ms) or JSON with `epochMs`, `now`, `unixtime` (s) or `time`/`datetime`
+   * (ISO). Preferred over `url`. Defaults to `OTP_TIME_ENDPOINT`; a local
+   * stub can stand in for it offline.
+   */
+  endpoint?: string;
+  /** Number of requests; the median offset is kept. Defaults to 3. */
+  samples?: number;
+  /** Measure again even if an offset is already known. Defaults to `false`. */
+  force?: boolean;
+};
+
+const log = Logger.for("clock-skew");
+
+/**
+ * Estimates how far the local clock is from the system under test, so OTP
+ * codes are generated and verified with the server's notion of time.
+ *
+ * The offset is measured once per run and cached: in memory, and in
+ * `process.env.OTP_CLOCK_SKEW_MS` so workers forked after a global setup
+ * reuse it. `OTP` applies it automatically whenever no explicit timestamp
+ * is passed.
+ *
+ * @example
+ * ```ts
+ * // global setup
+ * await ClockSkew.calibrate({ url: "https://id.heroku.com" });
+ *
+ * // anywhere
+ * ClockSkew.now(); // Date.now() corrected by the measured offset
+ * ```
+ */
+export class ClockSkew {
+  /**
+   * Cached measurement for this process: `undefined` until first needed,
+   * `null` once it is known that none is available yet.
+   */
+  private static measurement?: SkewMeasurement | null;
+
+  /**
+   * The known measurement: the cached one, else the offset inherited
+   * through `OTP_CLOCK_SKEW_MS`, else `undefined`.
+   */
+  static get current(): SkewMeasurement | undefined {
+    if (this.measurement === undefined) {
+      const offsetMs = Env.getNumber(SKEW_VAR, false);
+      this.measurement = offsetMs === undefined ? null : { offsetMs, accuracyMs: 0, source: SKEW_VAR };
+    }
+    return this.measurement ?? undefined;
+  }
+
+  /**
+   * The known offset in ms, or `0` if the clock was never calibrated.
+   */
+  static get offsetMs(): number {
+    return this.current?.offsetMs ?? 0;
+  }
+
+  /**
+   * The local time corrected by the known offset (epoch ms).
+   */
+  static now(): number {
+    return Date.now() + this.offsetMs;
+  }
+
+  /**
+   * Measure the offset against the configured server, cache it and report it
+   * (framework log, plus a `clock-skew` annotation when called in a test).
+   *
+   * @returns The measurement, or `undefined` if no `endpoint`/`url` is configured.
+   * @throws If the server cannot be reached or returns no usable time.
+   */
+  static async calibrate(opts: SkewOptions = {}): Promise<SkewMeasurement | undefined> {
+    if (this.current && !opts.force) return this.current;
+
+    const endpoint = opts.endpoint ?? Env.getString("OTP_TIME_ENDPOINT", false);
+    const url = opts.url ?? Env.getString("OTP_SKEW_URL", false);
+    if (!endpoint && !url) return undefined;
+
+    const samples: SkewMeasurement[] = [];
+    for (let i = 0; i < (opts.samples ?? 3); i++) {
+      samples.push(endpoint ? await this.sampleEndpoint(endpoint) : await this.sampleDateHeader(url!));
+    }
+    samples.sort((a, b) => a.offsetMs - b.offsetMs);
+
+    const measurement = samples[Math.floor(samples.length / 2)];
+    this.set(measurement);
+    return measurement;
+  }
+
+  /**
+   * Use a known offset instead of measuring it (e.g. from a previous run).
+   */
+  static set(measurement: SkewMeasurement): void {
+    this.measurement = measurement;
+    process.env[SKEW_VAR] = String(measurement.offsetMs);
+    this.report(measurement);
+  }
+
+  /**
+   * Forget the cached measurement.
+   */
+  static reset(): void {
+    this.measurement = null;
+    delete process.env[SKEW_VAR];
+  }
+
+  /**
+   * Estimate the offset from the `Date` header, which has one second resolution:
+   * the server time lies in `[date, date + 1000)`, the local time is taken at
+   * the middle of the round trip.
+   */
+  private static async sampleDateHeader(url: string): Promise<SkewMeasurement> {
+    const sent = Date.now();
+    const res = await fetch(url, { method: "HEAD", redirect: "manual" });
+    const received = Date.now();
+
+    const header = res.headers.get("date");
+    const server = header ? Date.parse(header) : NaN;
+    if (Number.isNaN(server)) throw new Error(`ClockSkew: ${url} returned no usable Date header`);
+
+    const rtt = received - sent;
+    return {
+      offsetMs: Math.round(server + 500 - (sent + rtt / 2)),
+      accuracyMs: Math.round(500 + rtt / 2),
+      source: `Date header of ${url}`,
+    };
+  }
+
+  /**
+   * Estimate the offset from a time endpoint with millisecond resolution.
+   */
+  private static async sampleEndpoint(endpoint: string): Promise<SkewMeasurement> {
+    const sent = Date.now();
+    const res = await fetch(endpoint);
+    const body = await res.text();
+    const received = Date.now();
+
+    if (!res.ok) throw new Error(`ClockSkew: ${endpoint} responded with HTTP ${res.status}`);
+    const server = this.parseServerTime(body);
+    if (server === undefined) throw new Error(`ClockSkew: ${endpoint} returned no usable time: ${body.slice(0, 100)}`);
+
+    const rtt = received - sent;
+    return {
+      offsetMs: Math.round(server - (sent + rtt / 2)),
+      accuracyMs: Math.round(rtt / 2),
+      source: endpoint,
+    };
+  }
+
+  /**
+   * Read the server time (epoch ms) from a time endpoint response body.
+   */
+  private static parseServerTime(body: string): number | undefined {
+    const text = body.trim();
+    if (/^\d+(\.\d+)?$/.test(text)) return Number(text);
+
+    let json: Record<string, unknown>;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+    if (typeof json.epochMs === "number") return json.epochMs;
+    if (typeof json.now === "number") return json.now;
+    if (typeof json.unixtime === "number") return json.unixtime * 1000;
+    for (const key of ["time", "datetime", "utc_datetime"]) {
+      const value = json[key];
+      if (typeof value === "string" && !Number.isNaN(Date.parse(value))) return Date.parse(value);
+    }
+    return undefined;
+  }
+
+  /**
+   * Log the measurement and annotate the running test, if any.
+   */
+  private static report(m: SkewMeasurement): void {
+    const description = `${m.offsetMs} ms (±${m.accuracyMs} ms) from ${m.source}`;
+    log.info(`Clock skew: ${description}`);
+    try {
+      test.info().annotations.push({ type: "clock-skew", description });
+    } catch {
+      // Not running inside a test (e.g. global setup).
+    }
+  }
+}
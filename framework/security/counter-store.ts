@@ -0,0 +1,85 @@
+import * as fs from "fs";
+import { withFileLockSync, writeFileAtomic } from "../utils/file-lock";
+
+/**
+ * Persistent storage for HOTP counters, keyed by account id.
+ *
+ * `update` must be atomic: the read of the current counter and the write
+ * of the new one happen as one step, so two workers never use the same
+ * counter value.
+ */
+export interface CounterStore {
+  /**
+   * Read the stored counter for `id`, or `undefined` if none is stored yet.
+   */
+  get(id: string): number | undefined;
+
+  /**
+   * Atomically read the counter for `id` (or `initial` if none is stored),
+   * and store the counter returned by `fn`.
+   *
+   * @returns The `result` returned by `fn`.
+   */
+  update<T>(id: string, initial: number, fn: (counter: number) => { counter: number; result: T }): T;
+}
+
+/**
+ * In-memory counter store. Counters are lost when the process exits and are
+ * not shared between Playwright workers, so only use it with a single
+ * worker or for accounts used by a single test.
+ */
+export class MemoryCounterStore implements CounterStore {
+  private readonly counters = new Map<string, number>();
+
+  get(id: string): number | undefined {
+    return this.counters.get(id);
+  }
+
+  update<T>(id: string, initial: number, fn: (counter: number) => { counter: number; result: T }): T {
+    const { counter, result } = fn(this.counters.get(id) ?? initial);
+    this.counters.set(id, counter);
+    return result;
+  }
+}
+
+/**
+ * Counter store backed by a local JSON file (`{ "<id>": <counter> }`).
+ *
+ * Every update holds a file lock (see {@link withFileLockSync}), so the
+ * store is safe across parallel Playwright workers and across runs.
+ *
+ * @example
+ * ```ts
+ * const store = new FileCounterStore("test-results/.otp/hotp-counters.json");
+ * const otp = OTP.fromEnv("ADMIN_HOTP_URI", { counterStore: store });
+ * ```
+ */
+export class FileCounterStore implements CounterStore {
+  constructor(private readonly file: string) {}
+
+  get(id: string): number | undefined {
+    return this.read()[id];
+  }
+
+  update<T>(id: string, initial: number, fn: (counter: number) => { counter: number; result: T }): T {
+    return withFileLockSync(`${this.file}.lock`, () => {
+      const counters = this.read();
+      const { counter, result } = fn(counters[id] ?? initial);
+      counters[id] = counter;
+      writeFileAtomic(this.file, JSON.stringify(counters, null, 2));
+      return result;
+    });
+  }
+
+  /**
+   * Read all counters, treating a missing file as empty.
+   */
+  private read(): Record<string, number> {
+    if (!fs.existsSync(this.file)) return {};
+    try {
+      return JSON.parse(fs.readFileSync(this.file, "utf8"));
+    } catch (e) {
+      throw new Error(`OTP: Corrupt HOTP counter file ${this.file}: ${(e as Error).message}`);
+    }
+  }
+}
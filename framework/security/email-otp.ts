@@ -0,0 +1,154 @@
+import { test } from "@playwright/test";
+import { MailQuery, SmtpCatcher } from "../mail/smtp-catcher";
+import { ReceivedMail } from "../mail/mail-parser";
+import { Secrets } from "./secrets";
+
+/**
+ * Options for {@link EmailOTP}.
+ */
+export type EmailOTPOptions = {
+  /**
+   * Pattern locating the code in the email. The first capture group is
+   * used if there is one, else the whole match. Default = six digits.
+   */
+  codePattern?: RegExp;
+  /**
+   * Pattern locating the magic link in the email. The first capture group
+   * is used if there is one, else the whole match. Default = first http(s) URL.
+   */
+  linkPattern?: RegExp;
+  /** Default time to wait for the email, in ms. Default = 30000. */
+  timeoutMs?: number;
+};
+
+/**
+ * Options for a single {@link EmailOTP.getCode} / {@link EmailOTP.getLink} call.
+ */
+export type EmailWaitOptions = Omit<MailQuery, "to">;
+
+/**
+ * Plain-text view of an HTML body, good enough to search for a code.
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * One-time codes and magic links sent by email, read from a local
+ * {@link SmtpCatcher}. The counterpart of `OTP` for email-based second
+ * factors and passwordless logins.
+ *
+ * Every code and link returned is registered with {@link Secrets}, so it is
+ * masked in reports.
+ *
+ * @example
+ * ```ts
+ * const emailOtp = new EmailOTP(mailbox, { codePattern: /code: (\d{8})/ });
+ * await page.getByRole('button', { name: 'Send code' }).click();
+ * const code = await emailOtp.getCode('bob@example.com');
+ * ```
+ */
+export class EmailOTP {
+  static readonly DEFAULT_CODE_PATTERN = /\b(\d{6})\b/;
+  static readonly DEFAULT_LINK_PATTERN = /https?:\/\/[^\s"'<>]+/;
+
+  private readonly codePattern: RegExp;
+  private readonly linkPattern: RegExp;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly mailbox: SmtpCatcher, opts: EmailOTPOptions = {}) {
+    this.codePattern = opts.codePattern ?? EmailOTP.DEFAULT_CODE_PATTERN;
+    this.linkPattern = opts.linkPattern ?? EmailOTP.DEFAULT_LINK_PATTERN;
+    this.timeoutMs = opts.timeoutMs ?? 30_000;
+  }
+
+  /**
+   * Wait for the next email to `address` and return the code it contains.
+   *
+   * @param address - Recipient of the email.
+   * @param opts - Subject filter and timeout for this call.
+   * @returns The code.
+   * @throws If no email arrives in time, or it contains no code.
+   */
+  async getCode(address: string, opts: EmailWaitOptions = {}): Promise<string> {
+    const mail = await this.waitForMail(address, opts);
+    const code = this.extractCode(mail);
+    this.annotate(mail, "code");
+    return code;
+  }
+
+  /**
+   * Wait for the next email to `address` and return the link it contains.
+   *
+   * @param address - Recipient of the email.
+   * @param opts - Subject filter and timeout for this call.
+   * @returns The link.
+   * @throws If no email arrives in time, or it contains no link.
+   */
+  async getLink(address: string, opts: EmailWaitOptions = {}): Promise<string> {
+    const mail = await this.waitForMail(address, opts);
+    const link = this.extractLink(mail);
+    this.annotate(mail, "link");
+    return link;
+  }
+
+  /**
+   * Wait for the next email to `address`, consuming it from the mailbox.
+   */
+  async waitForMail(address: string, opts: EmailWaitOptions = {}): Promise<ReceivedMail> {
+    return this.mailbox.waitForMessage({ ...opts, to: address, timeoutMs: opts.timeoutMs ?? this.timeoutMs });
+  }
+
+  /**
+   * Extract the code from an email, searching the text part first, then the HTML part.
+   *
+   * @throws If the code pattern does not match.
+   */
+  extractCode(mail: ReceivedMail): string {
+    const code = this.match(this.codePattern, [mail.text, htmlToText(mail.html)]);
+    if (!code) throw new Error(`EmailOTP: No code matching ${this.codePattern} in email "${mail.subject}"`);
+    Secrets.registerTransient(code);
+    return code;
+  }
+
+  /**
+   * Extract the link from an email, searching the text part first, then the
+   * HTML part (including `href` attributes).
+   *
+   * @throws If the link pattern does not match.
+   */
+  extractLink(mail: ReceivedMail): string {
+    const link = this.match(this.linkPattern, [mail.text, mail.html])?.replace(/&amp;/g, "&");
+    if (!link) throw new Error(`EmailOTP: No link matching ${this.linkPattern} in email "${mail.subject}"`);
+    Secrets.registerTransient(link);
+    return link;
+  }
+
+  private match(pattern: RegExp, texts: string[]): string | undefined {
+    for (const text of texts) {
+      const m = text && pattern.exec(text);
+      pattern.lastIndex = 0;
+      if (m) return m[1] ?? m[0];
+    }
+    return undefined;
+  }
+
+  /**
+   * Add an `email-otp` annotation to the running Playwright test, if any.
+   * Never includes the code or link itself.
+   */
+  private annotate(mail: ReceivedMail, what: "code" | "link"): void {
+    try {
+      test.info().annotations.push({
+        type: "email-otp",
+        description: `${what} from "${mail.subject}" to ${mail.to.join(", ")}, received ${new Date(mail.receivedAt).toISOString()}`,
+      });
+    } catch {
+      // Not running inside a test.
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import type { Locator } from "@playwright/test";
+import jsQR from "jsqr";
+import * as OTPAuth from "otpauth";
+import { PNG } from "pngjs";
+import { OTP, OTPParams } from "./otp";
+import { Secrets } from "./secrets";
+
+/**
+ * A freshly generated authenticator enrollment.
+ */
+export type Enrollment = {
+  /** Base32 secret, e.g. to store on the seeded test user. */
+  secret: string;
+  /** Matching `otpauth://` URI, e.g. for `TEST_ACCOUNTS`. */
+  uri: string;
+  /** Ready instance to generate codes. */
+  otp: OTP;
+};
+
+/**
+ * Generate a random base32 secret.
+ *
+ * @param size - Secret length in bytes. Default = 20 (160 bits, as recommended for SHA1).
+ */
+export function generateSecret(size = 20): string {
+  const secret = new OTPAuth.Secret({ size }).base32;
+  Secrets.register(secret);
+  return secret;
+}
+
+/**
+ * Create a new enrollment: a random secret, its otpauth URI and an {@link OTP}.
+ *
+ * @param params - URI parameters (algorithm, digits, period, issuer, label, ...).
+ *   `secret` defaults to a new {@link generateSecret} sized for the algorithm.
+ *
+ * @example
+ * ```ts
+ * const { secret, uri, otp } = enroll({ issuer: "Heroku", label: "mfa-user@example.com", digits: 8 });
+ * await api.post("/test/users", { data: { email: "mfa-user@example.com", totpSecret: secret } });
+ * ```
+ */
+export function enroll(params: Partial<OTPParams> = {}): Enrollment {
+  const size = { SHA1: 20, SHA256: 32, SHA512: 64 }[params.algorithm ?? "SHA1"];
+  const secret = params.secret ?? generateSecret(size);
+  const uri = OTP.buildUri({ ...params, secret });
+  return { secret, uri, otp: OTP.fromUri(uri) };
+}
+
+/**
+ * Decode the text of the QR code in a PNG image.
+ *
+ * @throws If the image contains no readable QR code.
+ */
+export function decodeQr(png: Buffer): string {
+  const image = PNG.sync.read(png);
+  const pixels = new Uint8ClampedArray(image.data.buffer, image.data.byteOffset, image.data.length);
+  const result = jsQR(pixels, image.width, image.height);
+  if (!result) throw new Error("Enrollment: No QR code found in the image");
+  return result.data;
+}
+
+/**
+ * Read the otpauth URI encoded in a 2FA setup QR code.
+ *
+ * @param source - A PNG screenshot, or the element showing the QR code
+ *   (an `<img>` with a PNG data URL is decoded directly, anything else is
+ *   screenshotted).
+ * @returns The URI, registered as a secret.
+ * @throws If no QR code is found, or it does not hold an otpauth URI.
+ *
+ * @example
+ * ```ts
+ * const uri = await readOtpUri(page.getByRole('img', { name: 'QR code' }));
+ * const otp = OTP.fromUri(uri);
+ * ```
+ */
+export async function readOtpUri(source: Buffer | Locator): Promise<string> {
+  let png: Buffer;
+  if (Buffer.isBuffer(source)) {
+    png = source;
+  } else {
+    const src = await source.evaluate(el => (el instanceof HTMLImageElement ? el.src : ""));
+    const dataUrl = /^data:image\/png;base64,(.*)$/s.exec(src);
+    png = dataUrl ? Buffer.from(dataUrl[1], "base64") : await source.screenshot();
+  }
+
+  const uri = decodeQr(png);
+  if (!uri.startsWith("otpauth://")) throw new Error("Enrollment: The QR code does not contain an otpauth:// URI");
+  Secrets.register(uri);
+  return uri;
+}
@@ -0,0 +1,160 @@
+import { test as base } from "@playwright/test";
+import { missingConfig } from "../env/missing-config";
+import { AccountPool } from "./account-pool";
+import { Account, Accounts } from "./accounts";
+import { OTP } from "./otp";
+import { PageClock } from "./page-clock";
+import { attachTransientSecrets, maskStdio, redactAnnotations, redactAttachments, redactErrors } from "./redaction";
+import { Secrets } from "./secrets";
+
+/**
+ * Fixtures provided by the security layer.
+ */
+export type SecurityFixtures = {
+  /**
+   * Automatic fixture: mask every secret registered in this worker (secret
+   * env values, OTP URIs, generated codes) in the test's stdout / stderr
+   * while it runs, and in its errors, text attachments and annotations once
+   * the body has finished, before they are sent to the reporters. Codes
+   * generated during the test are handed to the `RedactionReporter` (which
+   * masks step titles, out of the worker's reach) and then forgotten, so
+   * they are not masked in later tests.
+   */
+  redactSecrets: void;
+
+  /**
+   * The {@link Accounts} registry: named test accounts with their
+   * credentials and a ready `OTP` instance.
+   *
+   * @example
+   * ```ts
+   * test('admin can invite', async ({ page, accounts }) => {
+   *   const admin = accounts.get('admin');
+   * });
+   * ```
+   */
+  accounts: typeof Accounts;
+
+  /**
+   * Option: how long an {@link SecurityFixtures.account} lease lasts.
+   * - `"test"` (default): leased for one test, released when it ends.
+   * - `"worker"`: leased on first use and kept by the worker, e.g. to reuse a login session.
+   */
+  accountLease: "test" | "worker";
+
+  /**
+   * An account leased from the {@link SecurityWorkerFixtures.accountPool}:
+   * no other test running at the same time uses it. The account name is
+   * recorded as an `account` annotation. When no account is configured the
+   * test is skipped or failed, see {@link missingConfig}.
+   *
+   * @example
+   * ```ts
+   * test('login', async ({ page, account }) => {
+   *   await page.getByLabel('Email').fill(account.username);
+   * });
+   * ```
+   */
+  account: Account;
+
+  /**
+   * Option: starting instant of {@link SecurityFixtures.otpClock}
+   * (epoch ms, ISO string or Date). Defaults to the current time.
+   *
+   * @example
+   * ```ts
+   * test.use({ clockTime: '2030-01-01T00:00:25Z' }); // 5 s before a step rollover
+   * ```
+   */
+  clockTime: number | string | Date | undefined;
+
+  /**
+   * A paused virtual clock installed on `page` and used by every {@link OTP}
+   * for the duration of the test: advance it to reproduce code expiry and
+   * step rollover deterministically. Install it before navigating.
+   *
+   * @example
+   * ```ts
+   * test('expired code is rejected', async ({ page, otpClock, account }) => {
+   *   const code = account.otp!.getCode();
+   *   await otpClock.advanceToNextStep(account.otp!, 31_000);
+   * });
+   * ```
+   */
+  otpClock: PageClock;
+};
+
+/**
+ * Worker-scoped fixtures provided by the security layer.
+ */
+export type SecurityWorkerFixtures = {
+  /**
+   * Pool of interchangeable accounts shared by all workers (see {@link AccountPool}).
+   * Everything this worker still holds is released when it shuts down.
+   */
+  accountPool: AccountPool;
+};
+
+/**
+ * `test` extended with {@link SecurityFixtures} and {@link SecurityWorkerFixtures}.
+ *
+ * @example
+ * ```ts
+ * import { test } from '@security/fixtures';
+ * ```
+ */
+export const test = base.extend<SecurityFixtures, SecurityWorkerFixtures>({
+  redactSecrets: [async ({}, use, testInfo) => {
+    const restoreStdio = maskStdio();
+    try {
+      await use();
+    } finally {
+      restoreStdio();
+    }
+    redactErrors(testInfo.errors);
+    redactAttachments(testInfo.attachments);
+    redactAnnotations(testInfo.annotations);
+    attachTransientSecrets(testInfo.attachments);
+    Secrets.clearTransient();
+  }, { auto: true }],
+
+  accounts: async ({}, use) => {
+    await use(Accounts);
+  },
+
+  accountPool: [async ({}, use) => {
+    const pool = new AccountPool();
+    await use(pool);
+    await pool.releaseAll();
+  }, { scope: "worker" }],
+
+  accountLease: ["test", { option: true }],
+
+  account: async ({ accountPool, accountLease }, use, testInfo) => {
+    if (!accountPool.size) {
+      missingConfig("No test accounts. Set TEST_ACCOUNTS, or HEROKU_USERNAME and HEROKU_PWD.");
+    }
+    const owner = `worker ${testInfo.parallelIndex}`;
+    const lease = accountLease === "worker"
+      ? await accountPool.acquireForWorker(owner)
+      : await accountPool.acquire(`${owner}: ${testInfo.titlePath.slice(1).join(" > ")}`);
+    testInfo.annotations.push({ type: "account", description: `${lease.name} (leased per ${accountLease})` });
+    try {
+      await use(Accounts.get(lease.name));
+    } finally {
+      if (accountLease === "test") await accountPool.release(lease.name);
+    }
+  },
+
+  clockTime: [undefined, { option: true }],
+
+  otpClock: async ({ page, clockTime }, use) => {
+    const clock = await PageClock.install(page, clockTime ?? Date.now());
+    const restore = OTP.useClock(clock);
+    try {
+      await use(clock);
+    } finally {
+      restore();
+    }
+  },
+});
@@ -0,0 +1,24 @@
+import { Env } from "../env/env";
+import { Accounts } from "./accounts";
+
+/**
+ * Register every secret the framework can know about before any test runs.
+ *
+ * Call it from `playwright.config.ts`: Playwright loads the config in the
+ * runner and again in every worker, so reporters (runner) and tests
+ * (workers) mask the same values. The redaction reporter calls it too, in
+ * case a config forgets.
+ *
+ * Secret env keys are listed here, in one place, rather than in each
+ * config or spec. The configured accounts are parsed as well, which
+ * registers each password, OTP URI and recovery code on its own (the
+ * `TEST_ACCOUNTS` JSON as a whole would not match them in output).
+ */
+export function registerKnownSecrets(): void {
+  Env.secret("HEROKU_PWD", "HEROKU_OTP_URI", "TEST_ACCOUNTS", "ENV_VAULT_KEY");
+  try {
+    Accounts.all();
+  } catch {
+    // Invalid account configuration: reported by the tests that use it.
+  }
+}
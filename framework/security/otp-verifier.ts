@@ -0,0 +1,178 @@
+import { OTP } from "./otp";
+
+/**
+ * Why {@link OTPVerifier.verify} rejected a code.
+ * - `malformed`: empty, or not digits only.
+ * - `wrong_length`: digits only, but not the configured number of digits.
+ * - `out_of_window`: well-formed, but no step within the window (TOTP) or
+ *   look-ahead (HOTP) produces it.
+ * - `replayed`: valid, but already accepted once.
+ * - `locked`: too many failed attempts; rejected without being checked.
+ */
+export type OTPFailureReason = "malformed" | "wrong_length" | "out_of_window" | "replayed" | "locked";
+
+/**
+ * Result of {@link OTPVerifier.verify}.
+ */
+export type OTPVerification =
+  | {
+      ok: true;
+      /** Step offset from the current step (TOTP) or stored counter (HOTP). */
+      delta: number;
+    }
+  | {
+      ok: false;
+      reason: OTPFailureReason;
+      /** Failed attempts left before the lockout (`0` once locked). */
+      attemptsLeft: number;
+      /** End of the lockout (epoch ms), when locked. */
+      lockedUntil?: number;
+    };
+
+/**
+ * Verification policy of an {@link OTPVerifier}.
+ */
+export type OTPVerifierPolicy = {
+  /** Allowed step drift (±window for TOTP, look-ahead for HOTP). Default = 1. */
+  window?: number;
+  /** Reject codes that were already accepted. Default = `true`. */
+  rejectReplays?: boolean;
+  /** Failed attempts in a row before the account is locked. Default = 5; `Infinity` disables the lockout. */
+  maxAttempts?: number;
+  /** How long a lockout lasts, in ms. Default = 5 minutes. */
+  lockoutMs?: number;
+};
+
+/**
+ * Server-side view of an account's OTP, for local mock auth servers and
+ * negative tests: unlike {@link OTP.verify}, it behaves like a real server.
+ *
+ * - Every accepted code is remembered as a `(step, token)` pair and
+ *   rejected as `replayed` when submitted again.
+ * - After `maxAttempts` failures in a row the account is `locked` for
+ *   `lockoutMs`, measured on the OTP's clock (see {@link OTP.now}), so a
+ *   virtual clock can fast-forward past it; a success resets the count.
+ * - Failures carry a structured {@link OTPFailureReason}.
+ *
+ * One verifier holds the state of one account; create one per account.
+ *
+ * @example
+ * ```ts
+ * const verifier = new OTPVerifier(OTP.fromEnv("HEROKU_OTP_URI"), { maxAttempts: 3 });
+ * const result = verifier.verify(submittedCode);
+ * if (!result.ok) return res.status(401).json({ error: result.reason });
+ * ```
+ */
+export class OTPVerifier {
+  private readonly window: number;
+  private readonly rejectReplays: boolean;
+  private readonly maxAttempts: number;
+  private readonly lockoutMs: number;
+
+  /** Accepted codes, as `step:token` (TOTP) or `counter:token` (HOTP). */
+  private readonly consumed = new Set<string>();
+  private failures = 0;
+  private lockedUntil?: number;
+
+  constructor(private readonly otp: OTP, policy: OTPVerifierPolicy = {}) {
+    this.window = policy.window ?? 1;
+    this.rejectReplays = policy.rejectReplays ?? true;
+    this.maxAttempts = policy.maxAttempts ?? 5;
+    this.lockoutMs = policy.lockoutMs ?? 5 * 60_000;
+  }
+
+  /**
+   * Check a submitted code against the policy.
+   *
+   * @param code - The code as submitted; normalized like in {@link OTP.verify}.
+   * @param timestamp - Time to verify at (epoch ms), also used for the lockout. Defaults to
+   *   {@link OTP.now}: the installed OTP clock (e.g. the page's virtual clock), else the
+   *   local clock corrected for clock skew.
+   */
+  verify(code: string, timestamp?: number): OTPVerification {
+    const now = timestamp ?? this.otp.now();
+    if (this.lockedUntil !== undefined) {
+      if (now < this.lockedUntil) return this.fail("locked", now, false);
+      this.lockedUntil = undefined;
+      this.failures = 0;
+    }
+
+    const token = typeof code === "string" ? this.otp.normalizeToken(code) : "";
+    if (!/^\d+$/.test(token)) return this.fail("malformed", now);
+    if (token.length !== this.digits) return this.fail("wrong_length", now);
+
+    if (this.otp.kind === "totp") {
+      const info = this.otp.getStepInfo(now);
+      const delta = this.otp.getTOTP().validate({ token, window: this.window, timestamp: info.start });
+      if (delta === null) return this.fail("out_of_window", now);
+
+      const key = `${info.step + delta}:${token}`;
+      if (this.rejectReplays && this.consumed.has(key)) return this.fail("replayed", now);
+      this.consume(key, info.step - this.window);
+      return this.succeed(delta);
+    }
+
+    // The HOTP counter already rejects used codes; tell replays apart from wrong codes.
+    const counter = this.otp.getCounter();
+    const { delta } = this.otp.verify(token, this.window);
+    if (delta === null) {
+      const replayed = [...this.consumed].some(k => k.endsWith(`:${token}`));
+      return this.fail(this.rejectReplays && replayed ? "replayed" : "out_of_window", now);
+    }
+    this.consume(`${counter + delta}:${token}`, -Infinity);
+    return this.succeed(delta);
+  }
+
+  /**
+   * Current failure count and lockout, e.g. to assert on them.
+   */
+  get status(): { failures: number; lockedUntil?: number } {
+    return { failures: this.failures, lockedUntil: this.lockedUntil };
+  }
+
+  /**
+   * Forget accepted codes, failures and lockout.
+   */
+  reset(): void {
+    this.consumed.clear();
+    this.failures = 0;
+    this.lockedUntil = undefined;
+  }
+
+  private get digits(): number {
+    return this.otp.kind === "totp" ? this.otp.getTOTP().digits : this.otp.getHOTP().digits;
+  }
+
+  /**
+   * Remember an accepted code, dropping TOTP entries older than `minStep`
+   * (they can no longer be inside the window).
+   */
+  private consume(key: string, minStep: number): void {
+    for (const k of this.consumed) {
+      if (Number(k.split(":")[0]) < minStep) this.consumed.delete(k);
+    }
+    this.consumed.add(key);
+  }
+
+  private succeed(delta: number): OTPVerification {
+    this.failures = 0;
+    return { ok: true, delta };
+  }
+
+  /**
+   * Record a failed attempt (unless `count` is false) and lock the account
+   * from `now` once `maxAttempts` is reached.
+   */
+  private fail(reason: OTPFailureReason, now: number, count = true): OTPVerification {
+    if (count) {
+      this.failures++;
+      if (this.failures >= this.maxAttempts) this.lockedUntil = now + this.lockoutMs;
+    }
+    return {
+      ok: false,
+      reason,
+      attemptsLeft: Math.max(0, this.maxAttempts - this.failures),
+      lockedUntil: this.lockedUntil,
+    };
+  }
+}
@@ -1,13 +1,80 @@
+import { test } from "@playwright/test";
 import * as OTPAuth from "otpauth";
 import { Env } from "../env/env";
+import { ClockSkew } from "./clock-skew";
+import { CounterStore, FileCounterStore } from "./counter-store";
+import { Secrets } from "./secrets";
+
+/**
+ * Options for creating an {@link OTP} instance.
+ */
+export type OTPOptions = {
+    /**
+     * Where HOTP counters are persisted (ignored for TOTP).
+     * Defaults to {@link OTP.defaultCounterStore}.
+     */
+    counterStore?: CounterStore;
+};
+
+/**
+ * Parameters of an otpauth URI, for {@link OTP.buildUri} and {@link OTP.fromSecret}.
+ */
+export type OTPParams = {
+    /** Shared secret, base32 encoded. */
+    secret: string;
+    /** Time-based or counter-based. Default = `"totp"`. */
+    type?: "totp" | "hotp";
+    /** Service name shown by authenticator apps. */
+    issuer?: string;
+    /** Account name shown by authenticator apps (e.g. the username). */
+    label?: string;
+    /** HMAC algorithm. Default = `"SHA1"`. */
+    algorithm?: "SHA1" | "SHA256" | "SHA512";
+    /** Code length. Default = 6. */
+    digits?: number;
+    /** TOTP step length in seconds. Default = 30. */
+    period?: number;
+    /** Initial HOTP counter. Default = 0. */
+    counter?: number;
+};
+
+/**
+ * Position of a timestamp within the TOTP time steps.
+ */
+export type OTPStepInfo = {
+    /** Index of the time step (the TOTP counter). */
+    step: number;
+    /** Step length in milliseconds. */
+    periodMs: number;
+    /** Start of the step (epoch ms, inclusive). */
+    start: number;
+    /** End of the step (epoch ms, exclusive): the next code takes over here. */
+    end: number;
+    /** Milliseconds left until `end`. */
+    remainingMs: number;
+};
+
+/**
+ * Time source for OTP generation and verification, replacing the local
+ * clock (e.g. a virtual clock shared with the browser page).
+ */
+export interface OTPClock {
+    /** Current time, epoch ms. */
+    now(): number;
+    /** Let `ms` pass, e.g. by advancing the virtual clock. Defaults to a real wait. */
+    sleep?(ms: number): Promise<void>;
+}
 
 /**
  * Utility wrapper for managing OTP (One-Time Password) using `otpauth`.
  *
  * Supports:
  * - Loading configuration from an environment variable or direct `otpauth://` URI.
- * - Lazy parsing and caching of the underlying `OTPAuth.TOTP` instance.
- * - Generating current or time-shifted OTP codes.
+ * - Time-based (`otpauth://totp/...`) and counter-based (`otpauth://hotp/...`) configurations.
+ * - Lazy parsing and caching of the underlying `OTPAuth.TOTP` / `OTPAuth.HOTP` instance.
+ * - Generating current or time-shifted OTP codes, corrected for {@link ClockSkew}
+ *   or driven by a shared {@link OTPClock}.
+ * - Persisting HOTP counters in a pluggable {@link CounterStore}, with look-ahead resync.
  * - Normalizing user-supplied tokens (trimming, digit conversion, uppercasing).
  * - Verifying codes with detailed results (boolean, delta, and reason).
  * - Refreshing the cached configuration if the env/URI changes at runtime.
@@ -42,27 +109,117 @@ export class OTP {
     private readonly uri?: string;
     private readonly envKey?: string;
 
-    /** Cached TOTP instance after the first parse. */
-    private totp?: OTPAuth.TOTP;
+    /** Cached TOTP/HOTP instance after the first parse. */
+    private parsed?: OTPAuth.TOTP | OTPAuth.HOTP;
 
-    private constructor(opts: { uri?: string; envKey?: string }) {
+    /** Store for HOTP counters. */
+    private readonly counterStore: CounterStore;
+
+    /** Process-wide default store, created on first use. */
+    private static sharedStore?: CounterStore;
+
+    /** Time source installed with {@link OTP.useClock}, if any. */
+    private static clock?: OTPClock;
+
+    private constructor(opts: { uri?: string; envKey?: string } & OTPOptions) {
         this.uri = opts.uri;
         this.envKey = opts.envKey;
+        this.counterStore = opts.counterStore ?? OTP.defaultCounterStore;
     }
 
     /**
      * Create an OTP instance from an environment variable
      * (e.g. "OTP_URI" or "HEROKU_OTP_URI").
      */
-    static fromEnv(envKey: string): OTP {
-        return new OTP({ envKey });
+    static fromEnv(envKey: string, opts: OTPOptions = {}): OTP {
+        return new OTP({ envKey, ...opts });
     }
 
     /**
      * Create an OTP instance from a direct otpauth:// URI string.
      */
-    static fromUri(uri: string): OTP {
-        return new OTP({ uri });
+    static fromUri(uri: string, opts: OTPOptions = {}): OTP {
+        return new OTP({ uri, ...opts });
+    }
+
+    /**
+     * Create an OTP instance from a base32 secret, e.g. the "enter this key
+     * manually" text of a 2FA setup page. Spaces, dashes and padding are
+     * ignored and letters are uppercased.
+     *
+     * @param secret - The displayed base32 secret.
+     * @param params - URI parameters; must match what the server expects (usually the defaults).
+     * @throws If the secret is not valid base32.
+     *
+     * @example
+     * ```ts
+     * const otp = OTP.fromSecret(await page.getByTestId('manual-key').innerText());
+     * await page.getByLabel('Verification code').fill(otp.getCode());
+     * ```
+     */
+    static fromSecret(secret: string, params: Omit<OTPParams, "secret"> & OTPOptions = {}): OTP {
+        const { counterStore, ...uriParams } = params;
+        return OTP.fromUri(OTP.buildUri({ secret, ...uriParams }), { counterStore });
+    }
+
+    /**
+     * Build an `otpauth://` URI, e.g. to seed a test user or to compare
+     * with the URI shown by a setup page.
+     *
+     * @throws If the secret is not valid base32.
+     */
+    static buildUri(params: OTPParams): string {
+        const base32 = params.secret.replace(/[\s-]/g, "").replace(/=+$/, "").toUpperCase();
+        if (!/^[A-Z2-7]+$/.test(base32)) {
+            throw new Error("OTP: Secret is not valid base32 (expected letters A-Z and digits 2-7)");
+        }
+        const common = {
+            issuer: params.issuer,
+            label: params.label,
+            algorithm: params.algorithm ?? "SHA1",
+            digits: params.digits ?? 6,
+            secret: OTPAuth.Secret.fromBase32(base32),
+        };
+        const otp = params.type === "hotp"
+            ? new OTPAuth.HOTP({ ...common, counter: params.counter ?? 0 })
+            : new OTPAuth.TOTP({ ...common, period: params.period ?? 30 });
+        Secrets.register(base32);
+        return otp.toString();
+    }
+
+    /**
+     * Use `clock` instead of the local clock for every OTP instance in this
+     * process, until the returned function is called.
+     *
+     * @returns A function restoring the previous time source.
+     *
+     * @example
+     * ```ts
+     * const restore = OTP.useClock({ now: () => Date.parse("2030-01-01T00:00:29Z") });
+     * otp.getRemainingSeconds(); // => 1
+     * restore();
+     * ```
+     */
+    static useClock(clock: OTPClock): () => void {
+        const previous = OTP.clock;
+        OTP.clock = clock;
+        return () => {
+            OTP.clock = previous;
+        };
+    }
+
+    /**
+     * The counter store used when none is passed explicitly:
+     * a {@link FileCounterStore} at `OTP_COUNTER_FILE` (default
+     * `.otp/hotp-counters.json`), shared by parallel workers and kept
+     * across runs like the server's counter. Pass a `MemoryCounterStore`
+     * explicitly for throw-away secrets used by a single process.
+     */
+    static get defaultCounterStore(): CounterStore {
+        if (!this.sharedStore) {
+            this.sharedStore = new FileCounterStore(Env.getString("OTP_COUNTER_FILE", false) ?? ".otp/hotp-counters.json");
+        }
+        return this.sharedStore;
     }
 
     
@@ -79,13 +236,13 @@ export class OTP {
     }
 
     /**
-     * Get (and cache) a parsed TOTP instance from the otpauth URI.
-     * @throws If the URI is invalid or not a TOTP configuration.
+     * Get (and cache) the parsed TOTP or HOTP instance from the otpauth URI.
+     * @throws If the URI is invalid.
      */
-    getTOTP(): OTPAuth.TOTP {
-        if (this.totp) return this.totp;
+    private getOTP(): OTPAuth.TOTP | OTPAuth.HOTP {
+        if (this.parsed) return this.parsed;
         const uri = this.getUri();
-        let parsed: OTPAuth.URI;
+        let parsed: OTPAuth.TOTP | OTPAuth.HOTP;
         try {
             parsed = OTPAuth.URI.parse(uri);
         } catch (e) {
@@ -94,22 +251,180 @@ export class OTP {
             );
         }
 
+        Secrets.register(uri);
+        Secrets.register(parsed.secret.base32);
+        this.parsed = parsed;
+        return this.parsed;
+    }
+
+    /**
+     * Whether the URI describes a time-based (`totp`) or counter-based (`hotp`) configuration.
+     */
+    get kind(): "totp" | "hotp" {
+        return this.getOTP() instanceof OTPAuth.TOTP ? "totp" : "hotp";
+    }
+
+    /**
+     * Get (and cache) a parsed TOTP instance from the otpauth URI.
+     * @throws If the URI is invalid or not a TOTP configuration.
+     */
+    getTOTP(): OTPAuth.TOTP {
+        const parsed = this.getOTP();
         if (!(parsed instanceof OTPAuth.TOTP)) {
             throw new Error(
                 `OTP: The provided URI (${this.envKey ?? "direct"}) is not a TOTP configuration.`
             );
         }
+        return parsed;
+    }
+
+    /**
+     * Get (and cache) a parsed HOTP instance from the otpauth URI.
+     * @throws If the URI is invalid or not a HOTP configuration.
+     */
+    getHOTP(): OTPAuth.HOTP {
+        const parsed = this.getOTP();
+        if (parsed instanceof OTPAuth.TOTP) {
+            throw new Error(
+                `OTP: The provided URI (${this.envKey ?? "direct"}) is not a HOTP configuration.`
+            );
+        }
+        return parsed;
+    }
 
-        this.totp = parsed;
-        return this.totp;
+    /**
+     * Key of this account in the {@link CounterStore}: `issuer:label`.
+     */
+    private get counterId(): string {
+        const hotp = this.getHOTP();
+        return `${hotp.issuer}:${hotp.label}`;
     }
 
     /**
-     * Generate a TOTP code at the given timestamp (ms) or for the current time.
+     * The next HOTP counter that {@link OTP.getCode} will use: the stored
+     * value, or the `counter` parameter of the URI if nothing is stored yet.
+     */
+    getCounter(): number {
+        return this.counterStore.get(this.counterId) ?? this.getHOTP().counter;
+    }
+
+    /**
+     * Generate an OTP code.
+     *
+     * - TOTP: the code at the given timestamp (ms) or for the current time.
+     * - HOTP: the code for the next counter value; the counter is advanced
+     *   atomically in the {@link CounterStore}, so every call (in any worker)
+     *   gets a new code. `timestamp` is ignored.
+     *
+     * Like every `timestamp` parameter of this class, an explicit timestamp
+     * is on the OTP timeline (see {@link OTP.now}) and used as is: derive it
+     * from `otp.now()`, not `Date.now()`, which ignores the clock skew.
+     *
+     * The code is registered with {@link Secrets} so it is masked in reports.
+     *
+     * @example
+     * ```ts
+     * const previous = otp.getCode(otp.now() - 30_000); // the code of the previous step
+     * ```
      */
     getCode(timestamp?: number): string {
-        const totp = this.getTOTP();
-        return timestamp ? totp.generate({ timestamp }) : totp.generate();
+        const otp = this.getOTP();
+        let code: string;
+        if (otp instanceof OTPAuth.TOTP) {
+            code = otp.generate({ timestamp: timestamp ?? this.now() });
+        } else {
+            code = this.counterStore.update(this.counterId, otp.counter, counter => ({
+                counter: counter + 1,
+                result: otp.generate({ counter }),
+            }));
+        }
+        Secrets.registerTransient(code);
+        return code;
+    }
+
+    /**
+     * Current time (epoch ms) on the OTP timeline, used when no explicit
+     * timestamp is given: the installed {@link OTPClock}, else the local
+     * clock corrected by the measured {@link ClockSkew}.
+     */
+    now(): number {
+        return OTP.clock ? OTP.clock.now() : ClockSkew.now();
+    }
+
+    /**
+     * Describe the TOTP time step containing `timestamp`: its index,
+     * boundaries and the time left before the code changes.
+     *
+     * @param timestamp - Epoch ms on the OTP timeline. Defaults to {@link OTP.now}.
+     */
+    getStepInfo(timestamp = this.now()): OTPStepInfo {
+        const periodMs = this.getTOTP().period * 1000;
+        const step = Math.floor(timestamp / periodMs);
+        const start = step * periodMs;
+        const end = start + periodMs;
+        return { step, periodMs, start, end, remainingMs: end - timestamp };
+    }
+
+    /**
+     * Seconds left (fractional) before the current TOTP code expires.
+     *
+     * @param timestamp - Epoch ms on the OTP timeline. Defaults to {@link OTP.now}.
+     */
+    getRemainingSeconds(timestamp = this.now()): number {
+        return this.getStepInfo(timestamp).remainingMs / 1000;
+    }
+
+    /**
+     * Generate a TOTP code that stays valid for at least `minRemainingMs`.
+     *
+     * If the current step is about to roll over, waits for the next step
+     * first, so the code is not rejected while it is being typed.
+     * When called inside a Playwright test, an `otp` annotation records
+     * which step was used and its delta from the step at call time
+     * (`0` = current step, `1` = waited for the next one).
+     *
+     * @param opts.minRemainingMs - Minimum validity left for the returned code. Default = 5000.
+     * @returns The code.
+     * @throws If `minRemainingMs` is not smaller than the TOTP period.
+     *
+     * @example
+     * ```ts
+     * const code = await otp.getFreshCode({ minRemainingMs: 8000 });
+     * await page.getByRole('textbox', { name: 'Verification Code' }).fill(code);
+     * ```
+     */
+    async getFreshCode(opts: { minRemainingMs?: number } = {}): Promise<string> {
+        const { minRemainingMs = 5000 } = opts;
+        const initial = this.getStepInfo();
+        if (minRemainingMs >= initial.periodMs) {
+            throw new Error(`OTP: minRemainingMs (${minRemainingMs}) must be smaller than the period (${initial.periodMs} ms)`);
+        }
+
+        let info = initial;
+        if (info.remainingMs < minRemainingMs) {
+            const waitMs = info.remainingMs + 50;
+            await (OTP.clock?.sleep ? OTP.clock.sleep(waitMs) : new Promise(resolve => setTimeout(resolve, waitMs)));
+            info = this.getStepInfo();
+        }
+
+        const code = this.getCode(info.start);
+        this.annotate(
+            `step ${info.step} (delta ${info.step - initial.step}), ` +
+            `${Math.round(info.remainingMs)} ms remaining, clock skew ${ClockSkew.offsetMs} ms`
+        );
+        return code;
+    }
+
+    /**
+     * Add an `otp` annotation to the running Playwright test, if any.
+     * Never includes the code itself.
+     */
+    private annotate(description: string): void {
+        try {
+            test.info().annotations.push({ type: "otp", description });
+        } catch {
+            // Not running inside a test (e.g. CLI or global setup).
+        }
     }
 
     /**
@@ -118,18 +433,26 @@ export class OTP {
      * - Convert full-width digits (０-９) to ASCII digits (0-9)
      * - Uppercase any letters (for base32 alphabets)
      */
-    private normalizeToken(input: string): string {
+    normalizeToken(input: string): string {
         const toAsciiDigits = (s: string) =>
         s.replace(/[０-９]/g, d => String.fromCharCode(d.charCodeAt(0) - 0xFF10 + 0x30));
         return toAsciiDigits(input).replace(/\s+/g, "").toUpperCase();
     }
 
     /**
-     * Verify a user-provided OTP code against the expected TOTP.
+     * Verify a user-provided OTP code against the expected TOTP/HOTP.
+     *
+     * For HOTP, codes are searched from the stored counter up to `window`
+     * steps ahead (never behind, so used codes are rejected). On success
+     * the stored counter moves past the matched value.
+     *
+     * TOTP codes are accepted any number of times within the window; use an
+     * `OTPVerifier` for server-like replay protection and lockout.
      *
      * @param code - The OTP code to validate
-     * @param window - Allowed step drift (±window). Default = 1.
-     * @param timestamp - Optional timestamp (ms) to validate against
+     * @param window - Allowed step drift (±window for TOTP, look-ahead for HOTP). Default = 1.
+     * @param timestamp - Optional timestamp (ms) on the OTP timeline to validate against
+     *   (TOTP only). Defaults to {@link OTP.now}.
      *
      * @returns An object with:
      *   - ok: true/false
@@ -141,14 +464,19 @@ export class OTP {
         window = 1,
         timestamp?: number
     ): { ok: boolean; delta: number | null; reason?: string } {
-        const totp = this.getTOTP();
+        const otp = this.getOTP();
 
         if (!code || typeof code !== "string") {
         return { ok: false, delta: null, reason: "Empty or non-string code" };
         }
 
         const token = this.normalizeToken(code);
-        const delta = totp.validate({ token, window, timestamp });
+        const delta = otp instanceof OTPAuth.TOTP
+            ? otp.validate({ token, window, timestamp: timestamp ?? this.now() })
+            : this.counterStore.update(this.counterId, otp.counter, counter => {
+                const d = this.findCounterDelta(otp, [token], counter, window);
+                return { counter: d === null ? counter : counter + d + 1, result: d };
+            });
 
         return {
         ok: delta !== null,
@@ -166,10 +494,44 @@ export class OTP {
     }
 
     /**
-     * Clear the cached TOTP instance.
+     * Resynchronize the stored HOTP counter after the token and the store
+     * drifted apart (e.g. codes generated outside the tests).
+     *
+     * Looks ahead up to `lookAhead` counters from the stored value for the
+     * given consecutive codes (two codes make a false match very unlikely)
+     * and moves the counter just past the last one.
+     *
+     * @param codes - One or more consecutive codes produced by the token.
+     * @param lookAhead - How many counters ahead to search. Default = 100.
+     * @returns The new counter, or `null` if the codes were not found (counter unchanged).
+     */
+    resync(codes: string[], lookAhead = 100): number | null {
+        const hotp = this.getHOTP();
+        const tokens = codes.map(c => this.normalizeToken(c));
+        return this.counterStore.update(this.counterId, hotp.counter, counter => {
+            const delta = this.findCounterDelta(hotp, tokens, counter, lookAhead);
+            if (delta === null) return { counter, result: null };
+            const next = counter + delta + tokens.length;
+            return { counter: next, result: next };
+        });
+    }
+
+    /**
+     * Find the offset `d` in `[0, lookAhead]` such that `tokens` are the
+     * codes for counters `start + d`, `start + d + 1`, ...
+     */
+    private findCounterDelta(hotp: OTPAuth.HOTP, tokens: string[], start: number, lookAhead: number): number | null {
+        for (let d = 0; d <= lookAhead; d++) {
+            if (tokens.every((token, i) => hotp.generate({ counter: start + d + i }) === token)) return d;
+        }
+        return null;
+    }
+
+    /**
+     * Clear the cached TOTP/HOTP instance.
      * Use this if the environment variable or URI changes at runtime.
      */
     refresh(): void {
-        this.totp = undefined;
+        this.parsed = undefined;
     }
 }
@@ -0,0 +1,77 @@
+import type { Page } from "@playwright/test";
+import { OTP, OTPClock } from "./otp";
+
+/**
+ * A virtual clock shared by a page (through Playwright's `page.clock`) and
+ * {@link OTP}: the page's `Date`, timers and countdowns and the generated
+ * codes all see the same instant, and time only moves when the test moves it.
+ *
+ * This makes time-dependent 2FA scenarios reproducible: code expiry, step
+ * rollover, "code expired" messages, resend countdowns.
+ *
+ * @example
+ * ```ts
+ * const clock = await PageClock.install(page, "2030-01-01T00:00:25Z");
+ * const restore = OTP.useClock(clock);
+ * const code = otp.getCode();                 // code of the step ending at 00:00:30
+ * await clock.advanceToNextStep(otp);         // the page and OTP are now at 00:00:30
+ * await expect(page.getByText("Code expired")).toBeVisible();
+ * restore();
+ * ```
+ */
+export class PageClock implements OTPClock {
+  private constructor(private readonly page: Page, private current: number) {}
+
+  /**
+   * Install a paused clock on `page` at `time`. Call before `page.goto` so
+   * the page scripts start with the virtual clock.
+   *
+   * @param time - The starting instant (epoch ms, ISO string or Date).
+   */
+  static async install(page: Page, time: number | string | Date): Promise<PageClock> {
+    const start = new Date(time).getTime();
+    if (Number.isNaN(start)) throw new Error(`PageClock: Invalid time ${String(time)}`);
+    // Install slightly earlier so the clock can be paused exactly at `start`.
+    await page.clock.install({ time: start - 1000 });
+    await page.clock.pauseAt(start);
+    return new PageClock(page, start);
+  }
+
+  /**
+   * The shared instant, epoch ms.
+   */
+  now(): number {
+    return this.current;
+  }
+
+  /**
+   * Move time forward by `ms`, firing the page's due timers on the way.
+   */
+  async advance(ms: number): Promise<void> {
+    if (ms < 0) throw new Error(`PageClock: Cannot go back in time (${ms} ms)`);
+    await this.page.clock.runFor(ms);
+    this.current += ms;
+  }
+
+  /**
+   * Move time forward to `time` (epoch ms, ISO string or Date).
+   */
+  async advanceTo(time: number | string | Date): Promise<void> {
+    await this.advance(new Date(time).getTime() - this.current);
+  }
+
+  /**
+   * Move time to the start of the next TOTP step of `otp`, plus `offsetMs`,
+   * so the code generated before is now the previous one.
+   */
+  async advanceToNextStep(otp: OTP, offsetMs = 0): Promise<void> {
+    await this.advanceTo(otp.getStepInfo(this.current).end + offsetMs);
+  }
+
+  /**
+   * Used by {@link OTP.getFreshCode}: waiting advances the virtual clock.
+   */
+  async sleep(ms: number): Promise<void> {
+    await this.advance(ms);
+  }
+}
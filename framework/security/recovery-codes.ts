@@ -0,0 +1,183 @@
+import { test } from "@playwright/test";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { Env } from "../env/env";
+import { Logger } from "../logger/logger";
+import { withFileLockSync, writeFileAtomic } from "../utils/file-lock";
+import { Account } from "./accounts";
+import { Secrets } from "./secrets";
+
+/**
+ * Options for {@link RecoveryCodes}.
+ */
+export type RecoveryCodesOptions = {
+  /**
+   * File recording which codes are used, shared by every worker and kept
+   * across runs (a used code stays used on the server). Defaults to
+   * `RECOVERY_CODES_FILE`, else `.otp/recovery-codes.json`.
+   */
+  file?: string;
+  /** Warn once this many codes or fewer are left. Default = 2. */
+  warnBelow?: number;
+};
+
+const log = Logger.for("recovery-codes");
+
+/**
+ * Content of the state file: a random salt, generated on the first write,
+ * and the used code digests of each account.
+ */
+type State = { salt?: string; used: Record<string, string[]> };
+
+/**
+ * Digest stored in the state file instead of the code itself: a salted
+ * HMAC-SHA256, so the short codes cannot be brute-forced from the file.
+ */
+function digest(salt: string, code: string): string {
+  return crypto.createHmac("sha256", salt).update(code).digest("hex");
+}
+
+/**
+ * One-time 2FA recovery (backup) codes of one account.
+ *
+ * Each call to {@link RecoveryCodes.consume} hands out a code no test has
+ * used before, in any worker or previous run: used codes are recorded (as
+ * salted HMAC digests) in a JSON file updated under a file lock. A warning is logged,
+ * and added to the test annotations, when few codes are left.
+ *
+ * @example
+ * ```ts
+ * // TEST_ACCOUNTS: { "mfa-user": { ..., "recoveryCodes": ["a1b2-c3d4", "e5f6-a7b8", ...] } }
+ * const codes = RecoveryCodes.forAccount(Accounts.get("mfa-user"));
+ * await page.getByRole('link', { name: 'Use a recovery code' }).click();
+ * await page.getByLabel('Recovery code').fill(codes.consume());
+ * ```
+ */
+export class RecoveryCodes {
+  private readonly file: string;
+  private readonly warnBelow: number;
+  private readonly codes: string[];
+
+  /**
+   * @param id - Key of the account in the state file (e.g. the username).
+   * @param codes - All recovery codes issued to the account.
+   */
+  constructor(private readonly id: string, codes: readonly string[], opts: RecoveryCodesOptions = {}) {
+    this.codes = codes.map(c => c.trim()).filter(Boolean);
+    this.file = opts.file ?? Env.getString("RECOVERY_CODES_FILE", false) ?? ".otp/recovery-codes.json";
+    this.warnBelow = opts.warnBelow ?? 2;
+    this.codes.forEach(code => Secrets.register(code));
+  }
+
+  /**
+   * Recovery codes of an account loaded through {@link Accounts}.
+   *
+   * @throws If the account has no `recoveryCodes`.
+   */
+  static forAccount(account: Account, opts: RecoveryCodesOptions = {}): RecoveryCodes {
+    if (!account.recoveryCodes?.length) {
+      throw new Error(`RecoveryCodes: Account "${account.name}" has no recoveryCodes in TEST_ACCOUNTS`);
+    }
+    return new RecoveryCodes(account.username, account.recoveryCodes, opts);
+  }
+
+  /**
+   * Recovery codes from a comma-separated environment variable
+   * (e.g. `HEROKU_RECOVERY_CODES`), which is marked secret.
+   */
+  static fromEnv(envKey: string, opts: RecoveryCodesOptions = {}): RecoveryCodes {
+    Env.secret(envKey);
+    return new RecoveryCodes(envKey, Env.getList(envKey), opts);
+  }
+
+  /**
+   * Number of codes not used yet.
+   */
+  get remaining(): number {
+    const { salt, used } = this.read();
+    if (!salt) return this.codes.length;
+    const mine = new Set(used[this.id] ?? []);
+    return this.codes.filter(c => !mine.has(digest(salt, c))).length;
+  }
+
+  /**
+   * Take the next unused code and record it as used.
+   *
+   * @returns The code, registered with {@link Secrets}.
+   * @throws If every code has been used.
+   */
+  consume(): string {
+    const { code, left } = this.update((used, hash) => {
+      const code = this.codes.find(c => !used.has(hash(c)));
+      if (code) used.add(hash(code));
+      return { code, left: this.codes.filter(c => !used.has(hash(c))).length };
+    });
+    if (!code) {
+      throw new Error(
+        `RecoveryCodes: All ${this.codes.length} recovery codes of ${this.id} are used. ` +
+        `Generate new ones, update the credentials and reset ${this.file}.`
+      );
+    }
+    if (left <= this.warnBelow) this.warn(left);
+    return code;
+  }
+
+  /**
+   * Record a code as used outside the tests (e.g. by hand).
+   */
+  markUsed(code: string): void {
+    this.update((used, hash) => used.add(hash(code.trim())));
+  }
+
+  /**
+   * Forget which codes were used, e.g. after new codes were generated.
+   */
+  reset(): void {
+    this.update(used => used.clear());
+  }
+
+  private warn(left: number): void {
+    const description = `only ${left} of ${this.codes.length} recovery codes left for ${this.id}`;
+    log.warn(`Recovery codes: ${description}`);
+    try {
+      test.info().annotations.push({ type: "recovery-codes", description });
+    } catch {
+      // Not running inside a test.
+    }
+  }
+
+  /**
+   * Update this account's used codes under the file lock, generating the
+   * salt on the first write.
+   */
+  private update<T>(fn: (used: Set<string>, hash: (code: string) => string) => T): T {
+    return withFileLockSync(`${this.file}.lock`, () => {
+      const state = this.read();
+      const salt = state.salt ?? crypto.randomBytes(32).toString("hex");
+      const used = new Set(state.used[this.id] ?? []);
+      const result = fn(used, code => digest(salt, code));
+      state.used[this.id] = [...used];
+      writeFileAtomic(this.file, JSON.stringify({ salt, used: state.used }, null, 2));
+      return result;
+    });
+  }
+
+  /**
+   * Read the state file, treating a missing file as empty.
+   *
+   * @throws If the file is not valid JSON or not shaped `{ salt, used }`.
+   */
+  private read(): State {
+    if (!fs.existsSync(this.file)) return { used: {} };
+    let state: Partial<State>;
+    try {
+      state = JSON.parse(fs.readFileSync(this.file, "utf8"));
+    } catch (e) {
+      throw new Error(`RecoveryCodes: Corrupt state file ${this.file}: ${(e as Error).message}`);
+    }
+    if (typeof state?.salt !== "string" || typeof state.used !== "object" || state.used === null) {
+      throw new Error(`RecoveryCodes: Corrupt state file ${this.file}: expected { salt, used }`);
+    }
+    return state as State;
+  }
+}
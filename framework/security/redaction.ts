@@ -0,0 +1,140 @@
+import * as fs from "fs";
+import { Secrets } from "./secrets";
+
+/**
+ * Shape shared by Playwright's worker-side `TestInfo` attachments and the
+ * reporter-side `TestResult` attachments.
+ */
+type Attachment = { name: string; contentType: string; path?: string; body?: Buffer };
+
+/**
+ * Shape shared by Playwright's worker-side and reporter-side errors.
+ */
+type ErrorLike = { message?: string; stack?: string; value?: string; snippet?: string };
+
+/**
+ * Name of the attachment carrying a test's transient secrets (generated OTP
+ * codes, codes read from email or SMS) from the worker to the
+ * `RedactionReporter`, which registers them and removes the attachment.
+ */
+export const TRANSIENT_SECRETS_ATTACHMENT = "redaction-transient-secrets";
+
+/**
+ * Environment variable set by the `RedactionReporter` in the runner, so the
+ * workers it forks know that it will consume {@link TRANSIENT_SECRETS_ATTACHMENT}.
+ * Without the reporter the attachment is never added: it would publish the
+ * codes instead of hiding them.
+ */
+export const REDACTION_REPORTER_VAR = "REDACTION_REPORTER";
+
+/**
+ * Hand the transient secrets registered during the test to the
+ * `RedactionReporter` (see {@link TRANSIENT_SECRETS_ATTACHMENT}), if it is in use.
+ */
+export function attachTransientSecrets(attachments: Attachment[]): void {
+  const values = Secrets.transientValues();
+  if (!values.length || process.env[REDACTION_REPORTER_VAR] !== "1") return;
+  attachments.push({
+    name: TRANSIENT_SECRETS_ATTACHMENT,
+    contentType: "application/json",
+    body: Buffer.from(JSON.stringify(values)),
+  });
+}
+
+/**
+ * Remove the {@link TRANSIENT_SECRETS_ATTACHMENT} from `attachments` in
+ * place and register its values as transient secrets.
+ */
+export function consumeTransientSecrets(attachments: Attachment[]): void {
+  for (let i = attachments.length - 1; i >= 0; i--) {
+    const attachment = attachments[i];
+    if (attachment.name !== TRANSIENT_SECRETS_ATTACHMENT) continue;
+    attachments.splice(i, 1);
+    try {
+      const values: unknown = JSON.parse(attachment.body?.toString("utf8") ?? "[]");
+      if (Array.isArray(values)) values.forEach(v => typeof v === "string" && Secrets.registerTransient(v));
+    } catch {
+      // Not written by attachTransientSecrets: nothing to register.
+    }
+  }
+}
+
+/**
+ * Whether an attachment holds text that can be masked.
+ * Binary attachments (screenshots, videos, traces) are left untouched.
+ */
+export function isTextContent(contentType: string): boolean {
+  return /^text\/|[/+](json|xml|javascript)\b/.test(contentType);
+}
+
+/**
+ * Mask registered secrets in the given errors, in place.
+ */
+export function redactErrors(errors: ErrorLike[]): void {
+  for (const error of errors) {
+    error.message = Secrets.mask(error.message);
+    error.stack = Secrets.mask(error.stack);
+    error.value = Secrets.mask(error.value);
+    error.snippet = Secrets.mask(error.snippet);
+  }
+}
+
+/**
+ * Mask registered secrets in text attachments, in place.
+ *
+ * - In-memory bodies are replaced with a masked copy.
+ * - File attachments are rewritten on disk, so the raw test artifacts
+ *   uploaded by CI are masked as well.
+ */
+export function redactAttachments(attachments: Attachment[]): void {
+  for (const attachment of attachments) {
+    attachment.name = Secrets.mask(attachment.name);
+    if (!isTextContent(attachment.contentType)) continue;
+
+    if (attachment.body) {
+      attachment.body = Buffer.from(Secrets.mask(attachment.body.toString("utf8")));
+    } else if (attachment.path && fs.existsSync(attachment.path)) {
+      const text = fs.readFileSync(attachment.path, "utf8");
+      const masked = Secrets.mask(text);
+      if (masked !== text) fs.writeFileSync(attachment.path, masked);
+    }
+  }
+}
+
+/**
+ * Mask registered secrets in annotation descriptions, in place.
+ */
+export function redactAnnotations(annotations: { type: string; description?: string }[]): void {
+  for (const annotation of annotations) {
+    annotation.description = Secrets.mask(annotation.description);
+  }
+}
+
+/**
+ * Mask registered secrets in everything written to stdout and stderr until
+ * the returned function is called.
+ *
+ * Used in the workers, where the secrets (including generated OTP codes)
+ * are known: Playwright forwards captured output to every reporter
+ * unchanged, so it has to be masked before it is captured.
+ */
+export function maskStdio(): () => void {
+  const restores = [process.stdout, process.stderr].map(stream => {
+    const write = stream.write;
+    stream.write = function (chunk: unknown, ...rest: unknown[]) {
+      let masked = chunk;
+      if (typeof chunk === "string") {
+        masked = Secrets.mask(chunk);
+      } else if (Buffer.isBuffer(chunk)) {
+        const text = chunk.toString("utf8");
+        const maskedText = Secrets.mask(text);
+        if (maskedText !== text) masked = Buffer.from(maskedText);
+      }
+      return (write as (...args: unknown[]) => boolean).call(stream, masked, ...rest);
+    } as typeof stream.write;
+    return () => {
+      stream.write = write;
+    };
+  });
+  return () => restores.forEach(restore => restore());
+}
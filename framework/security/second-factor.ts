@@ -0,0 +1,175 @@
+import { SmsQuery, SmsReceiver } from "../sms/sms-receiver";
+import { EmailOTP, EmailWaitOptions } from "./email-otp";
+import { OTP } from "./otp";
+import { Secrets } from "./secrets";
+
+/**
+ * Where a second-factor code comes from.
+ */
+export type SecondFactorKind = "totp" | "hotp" | "email" | "sms";
+
+/**
+ * Options for {@link SecondFactorProvider.getCode}. Each provider uses the
+ * ones that apply to it.
+ */
+export type SecondFactorOptions = {
+  /** TOTP: minimum validity left for the code (see `OTP.getFreshCode`). */
+  minRemainingMs?: number;
+  /** Email / SMS: how long to wait for the message. */
+  timeoutMs?: number;
+};
+
+/**
+ * A source of second-factor codes for one account.
+ *
+ * Specs ask a provider for "the current code" and do not need to know
+ * whether it is computed locally (TOTP / HOTP) or delivered by email or SMS.
+ * Implementations register every code with {@link Secrets}.
+ */
+export interface SecondFactorProvider {
+  /** Kind of second factor, e.g. for annotations or kind-specific UI steps. */
+  readonly kind: SecondFactorKind;
+
+  /**
+   * The code to type now. For email and SMS, waits for the next message.
+   */
+  getCode(opts?: SecondFactorOptions): Promise<string>;
+}
+
+/**
+ * Authenticator-app codes from an {@link OTP} (TOTP or HOTP, as given by its URI).
+ * TOTP codes are fresh: see `OTP.getFreshCode`.
+ */
+export class OTPProvider implements SecondFactorProvider {
+  constructor(private readonly otp: OTP) {}
+
+  get kind(): "totp" | "hotp" {
+    return this.otp.kind;
+  }
+
+  async getCode(opts: SecondFactorOptions = {}): Promise<string> {
+    if (this.otp.kind === "hotp") return this.otp.getCode();
+    return this.otp.getFreshCode({ minRemainingMs: opts.minRemainingMs });
+  }
+}
+
+/**
+ * Codes emailed to `address`, read through an {@link EmailOTP}.
+ */
+export class EmailProvider implements SecondFactorProvider {
+  readonly kind = "email";
+
+  constructor(
+    private readonly emailOtp: EmailOTP,
+    private readonly address: string,
+    private readonly query: EmailWaitOptions = {},
+  ) {}
+
+  async getCode(opts: SecondFactorOptions = {}): Promise<string> {
+    return this.emailOtp.getCode(this.address, { ...this.query, timeoutMs: opts.timeoutMs ?? this.query.timeoutMs });
+  }
+}
+
+/**
+ * Codes texted to `number`, read from an {@link SmsReceiver}.
+ */
+export class SmsProvider implements SecondFactorProvider {
+  static readonly DEFAULT_CODE_PATTERN = /\b(\d{6})\b/;
+
+  readonly kind = "sms";
+
+  /**
+   * @param receiver - Webhook receiving the messages.
+   * @param number - Phone number of the account.
+   * @param opts.codePattern - Pattern locating the code; first capture group if any, else the whole match. Default = six digits.
+   * @param opts.body - Only consider messages whose text matches.
+   */
+  constructor(
+    private readonly receiver: SmsReceiver,
+    private readonly number: string,
+    private readonly opts: { codePattern?: RegExp; body?: SmsQuery["body"] } = {},
+  ) {}
+
+  async getCode(opts: SecondFactorOptions = {}): Promise<string> {
+    const pattern = this.opts.codePattern ?? SmsProvider.DEFAULT_CODE_PATTERN;
+    const sms = await this.receiver.waitForMessage({ to: this.number, body: this.opts.body, timeoutMs: opts.timeoutMs });
+    const m = pattern.exec(sms.body);
+    pattern.lastIndex = 0;
+    if (!m) throw new Error(`SecondFactor: No code matching ${pattern} in SMS to ${this.number}`);
+
+    const code = m[1] ?? m[0];
+    Secrets.registerTransient(code);
+    return code;
+  }
+}
+
+/**
+ * Second-factor providers keyed by account name, so specs can ask for
+ * "the current code for this account".
+ *
+ * @example
+ * ```ts
+ * SecondFactorRegistry.register("heroku", new OTPProvider(OTP.fromEnv("HEROKU_OTP_URI")));
+ * // Providers holding per-test state (e.g. the `smsInbox` fixture): unregister after the test.
+ * const unregister = SecondFactorRegistry.register("support", new SmsProvider(smsInbox, "+15550100000"));
+ *
+ * const code = await SecondFactorRegistry.getCode("heroku");
+ * unregister();
+ * ```
+ */
+export class SecondFactorRegistry {
+  private static readonly providers = new Map<string, SecondFactorProvider>();
+
+  /**
+   * Register (or replace) the provider for `account`.
+   *
+   * @returns A function restoring the previous provider, if any.
+   */
+  static register(account: string, provider: SecondFactorProvider): () => void {
+    const previous = this.providers.get(account);
+    this.providers.set(account, provider);
+    return () => {
+      if (previous) this.providers.set(account, previous);
+      else this.providers.delete(account);
+    };
+  }
+
+  /**
+   * Whether a provider is registered for `account`.
+   */
+  static has(account: string): boolean {
+    return this.providers.has(account);
+  }
+
+  /**
+   * The provider registered for `account`.
+   *
+   * @throws If none is registered.
+   */
+  static get(account: string): SecondFactorProvider {
+    const provider = this.providers.get(account);
+    if (!provider) {
+      throw new Error(
+        `SecondFactor: No provider registered for account "${account}" ` +
+        `(registered: ${[...this.providers.keys()].join(", ") || "none"})`
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * The current code for `account`.
+   *
+   * @throws If no provider is registered, or the provider fails.
+   */
+  static async getCode(account: string, opts?: SecondFactorOptions): Promise<string> {
+    return this.get(account).getCode(opts);
+  }
+
+  /**
+   * Remove every registered provider.
+   */
+  static clear(): void {
+    this.providers.clear();
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Process-wide registry of secret values that must never show up in
+ * reports, traces, error messages or logs.
+ *
+ * Values are registered by {@link Env} (for keys marked secret) and by
+ * `OTP` (for every generated code, see {@link Secrets.registerTransient});
+ * anything producing output can then pass its text through {@link Secrets.mask}.
+ *
+ * @example
+ * ```ts
+ * Secrets.register("hunter2");
+ * Secrets.mask("login failed for password hunter2"); // => "login failed for password ******"
+ * ```
+ */
+export class Secrets {
+  /** Replacement text for every masked value. */
+  static readonly MASK = "******";
+
+  /**
+   * Values shorter than this are not registered: masking e.g. `"1"` or
+   * `"on"` everywhere would make reports unreadable without hiding anything.
+   */
+  static readonly MIN_LENGTH = 4;
+
+  /** Registered values, including their URL-encoded forms. */
+  private static readonly values = new Set<string>();
+
+  /** Values registered until the end of the current test, see {@link Secrets.registerTransient}. */
+  private static readonly transient = new Set<string>();
+
+  /** Cached masking pattern, rebuilt lazily after each registration. */
+  private static pattern?: RegExp;
+
+  /**
+   * Register a value to be masked from now on.
+   * Empty, `undefined` and very short values are ignored.
+   *
+   * The URL-encoded form is registered as well, since secrets often end up
+   * in query strings or request bodies.
+   */
+  static register(value: string | undefined): void {
+    this.add(this.values, value);
+  }
+
+  /**
+   * Register a short-lived value, such as a generated OTP code, to be masked
+   * until {@link Secrets.clearTransient} is called at the end of the test.
+   *
+   * Codes are only valid for a step or two; keeping every one of them for
+   * the whole run would mask unrelated numbers (IDs, amounts) in later tests.
+   */
+  static registerTransient(value: string | undefined): void {
+    if (value !== undefined && this.values.has(value)) return;
+    this.add(this.transient, value);
+  }
+
+  /**
+   * Forget the values registered with {@link Secrets.registerTransient}.
+   */
+  static clearTransient(): void {
+    if (!this.transient.size) return;
+    this.transient.clear();
+    this.pattern = undefined;
+  }
+
+  /**
+   * The values registered with {@link Secrets.registerTransient} and not
+   * cleared yet.
+   */
+  static transientValues(): readonly string[] {
+    return [...this.transient];
+  }
+
+  /**
+   * Whether a given value has been registered as secret.
+   */
+  static isSecret(value: string): boolean {
+    return this.values.has(value) || this.transient.has(value);
+  }
+
+  /**
+   * All registered secret values, long-lived ones first.
+   */
+  static all(): readonly string[] {
+    return [...this.values, ...this.transient];
+  }
+
+  /**
+   * Replace every registered secret in `text` with {@link Secrets.MASK}.
+   * Longer secrets are matched first so overlapping values are fully hidden.
+   */
+  static mask(text: string): string;
+  static mask(text: string | undefined): string | undefined;
+  static mask(text: string | undefined): string | undefined {
+    if (!text || !(this.values.size || this.transient.size)) return text;
+    if (!this.pattern) {
+      const escaped = [...new Set(this.all())]
+        .sort((a, b) => b.length - a.length)
+        .map(v => v.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+      this.pattern = new RegExp(escaped.join("|"), "g");
+    }
+    return text.replace(this.pattern, this.MASK);
+  }
+
+  /**
+   * Mask secrets in an error in place (message and stack) and return it.
+   * Non-`Error` values are converted to a masked `Error`.
+   */
+  static maskError(error: unknown): Error {
+    if (!(error instanceof Error)) return new Error(this.mask(String(error)));
+    error.message = this.mask(error.message);
+    if (error.stack) error.stack = this.mask(error.stack);
+    return error;
+  }
+
+  /**
+   * Forget every registered value.
+   */
+  static clear(): void {
+    this.values.clear();
+    this.transient.clear();
+    this.pattern = undefined;
+  }
+
+  /**
+   * Add a value and its trimmed and URL-encoded forms to `set`.
+   */
+  private static add(set: Set<string>, value: string | undefined): void {
+    if (value === undefined) return;
+    for (const v of new Set([value, value.trim(), encodeURIComponent(value)])) {
+      if (v.length < this.MIN_LENGTH || set.has(v)) continue;
+      set.add(v);
+      this.pattern = undefined;
+    }
+  }
+}
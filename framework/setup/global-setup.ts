@@ -0,0 +1,11 @@
+import { ClockSkew } from "../security/clock-skew";
+
+/**
+ * Playwright global setup, run once per run before any worker starts.
+ *
+ * - Measures the clock skew against `OTP_TIME_ENDPOINT` / `OTP_SKEW_URL`
+ *   (if configured) so every worker generates OTP codes with the server time.
+ */
+export default async function globalSetup(): Promise<void> {
+  await ClockSkew.calibrate();
+}
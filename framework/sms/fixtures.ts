@@ -0,0 +1,64 @@
+import { test as base } from "@playwright/test";
+import { Env } from "../env/env";
+import { SmsReceiver } from "./sms-receiver";
+
+/**
+ * Test-scoped fixtures provided by the SMS layer.
+ */
+export type SmsFixtures = {
+  /**
+   * This worker's {@link SmsWorkerFixtures.smsReceiver}, emptied before the
+   * test: a message left over by a previous (e.g. failed) test would
+   * otherwise supply a stale code.
+   */
+  smsInbox: SmsReceiver;
+};
+
+/**
+ * Worker-scoped fixtures provided by the SMS layer.
+ */
+export type SmsWorkerFixtures = {
+  /**
+   * Local SMS webhook started once per worker. Listens on
+   * `SMS_WEBHOOK_PORT` + the worker's parallel index, so each worker gets
+   * its own inbox; on a free port when `SMS_WEBHOOK_PORT` is unset
+   * (see {@link SmsReceiver.url}). Tests use it through
+   * {@link SmsFixtures.smsInbox}.
+   */
+  smsReceiver: SmsReceiver;
+};
+
+/**
+ * `test` extended with {@link SmsFixtures} and {@link SmsWorkerFixtures}.
+ *
+ * @example
+ * ```ts
+ * import { test as base } from '@framework/sms/fixtures';
+ *
+ * // Registered for the test only: the registry outlives it, the inbox does not.
+ * const test = base.extend<{ supportSms: void }>({
+ *   supportSms: [async ({ smsInbox }, use) => {
+ *     const unregister = SecondFactorRegistry.register('support', new SmsProvider(smsInbox, '+15550100000'));
+ *     await use();
+ *     unregister();
+ *   }, { auto: true }],
+ * });
+ *
+ * test('login with SMS code', async ({ page }) => {
+ *   await page.getByLabel('Code').fill(await SecondFactorRegistry.getCode('support'));
+ * });
+ * ```
+ */
+export const test = base.extend<SmsFixtures, SmsWorkerFixtures>({
+  smsReceiver: [async ({}, use, workerInfo) => {
+    const basePort = Env.getPort("SMS_WEBHOOK_PORT", false);
+    const receiver = await SmsReceiver.start(basePort === undefined ? 0 : basePort + workerInfo.parallelIndex);
+    await use(receiver);
+    await receiver.stop();
+  }, { scope: "worker" }],
+
+  smsInbox: async ({ smsReceiver }, use) => {
+    smsReceiver.clear();
+    await use(smsReceiver);
+  },
+});
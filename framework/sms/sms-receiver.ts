@@ -0,0 +1,202 @@
+import { EventEmitter } from "events";
+import * as http from "http";
+import * as net from "net";
+
+/**
+ * A text message delivered to the {@link SmsReceiver}.
+ */
+export type ReceivedSms = {
+  /** Sender number or name, as sent by the gateway. */
+  from: string;
+  /** Recipient number, normalized (see {@link normalizeNumber}). */
+  to: string;
+  /** Message text. */
+  body: string;
+  /** Time the message was received (epoch ms). */
+  receivedAt: number;
+};
+
+/**
+ * Criteria for {@link SmsReceiver.waitForMessage}.
+ */
+export type SmsQuery = {
+  /** Recipient number; formatting (spaces, dashes, parentheses) is ignored. Any recipient if omitted. */
+  to?: string;
+  /** Only messages whose text matches. */
+  body?: string | RegExp;
+  /** How long to wait before failing. Defaults to 30 s. */
+  timeoutMs?: number;
+};
+
+/**
+ * Strip the formatting from a phone number: `+1 (555) 010-0000` → `+15550100000`.
+ */
+export function normalizeNumber(number: string): string {
+  return number.replace(/[\s().-]/g, "");
+}
+
+/**
+ * Read a webhook payload: JSON (`to`/`from`/`body`, `text` or `message`)
+ * or a form post in the Twilio style (`To`, `From`, `Body`).
+ */
+function parsePayload(raw: string, contentType: string): Omit<ReceivedSms, "receivedAt"> {
+  let fields: Record<string, unknown>;
+  if (contentType.includes("application/json")) {
+    fields = JSON.parse(raw);
+  } else {
+    fields = Object.fromEntries(new URLSearchParams(raw));
+  }
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      if (typeof fields[key] === "string") return fields[key] as string;
+    }
+    return undefined;
+  };
+
+  const to = pick("to", "To");
+  const body = pick("body", "Body", "text", "Text", "message");
+  if (!to || body === undefined) throw new Error("expected `to` and `body` fields");
+  return { to: normalizeNumber(to), from: pick("from", "From") ?? "", body };
+}
+
+/**
+ * Local HTTP webhook standing in for an SMS gateway: the application under
+ * test (or a gateway stub) POSTs each outgoing text message to it, and tests
+ * wait for the messages sent to a given number.
+ *
+ * Accepts `POST` on any path with a JSON body (`{ "to", "from", "body" }`)
+ * or a form body with Twilio-style fields (`To`, `From`, `Body`), and
+ * answers `204`. Malformed payloads get a `400`.
+ *
+ * @example
+ * ```ts
+ * const receiver = await SmsReceiver.start(4010);
+ * // the app's SMS gateway URL: http://localhost:4010/sms
+ * const sms = await receiver.waitForMessage({ to: "+1 555 010 0000" });
+ * await receiver.stop();
+ * ```
+ */
+export class SmsReceiver {
+  /** Messages not yet returned by {@link SmsReceiver.waitForMessage}, oldest first. */
+  private readonly inbox: ReceivedSms[] = [];
+  private readonly events = new EventEmitter();
+
+  private constructor(private readonly server: http.Server) {}
+
+  /**
+   * Start a receiver on `127.0.0.1`.
+   *
+   * @param port - Port to listen on. `0` (default) picks a free port, see {@link SmsReceiver.url}.
+   */
+  static async start(port = 0): Promise<SmsReceiver> {
+    const server = http.createServer();
+    const receiver = new SmsReceiver(server);
+    server.on("request", (req, res) => receiver.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => resolve());
+    });
+    return receiver;
+  }
+
+  /**
+   * The port the receiver listens on.
+   */
+  get port(): number {
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  /**
+   * The webhook URL to configure as the SMS gateway.
+   */
+  get url(): string {
+    return `http://127.0.0.1:${this.port}/sms`;
+  }
+
+  /**
+   * Messages received and not yet consumed, oldest first.
+   */
+  get messages(): readonly ReceivedSms[] {
+    return [...this.inbox];
+  }
+
+  /**
+   * Wait for the next message matching `query` and consume it, so the same
+   * message is never returned twice. Messages that arrived before the call
+   * count as well.
+   *
+   * @throws If no matching message arrives within `timeoutMs`.
+   */
+  async waitForMessage(query: SmsQuery = {}): Promise<ReceivedSms> {
+    const { timeoutMs = 30_000 } = query;
+    const take = (): ReceivedSms | undefined => {
+      const index = this.inbox.findIndex(m => this.matches(m, query));
+      return index === -1 ? undefined : this.inbox.splice(index, 1)[0];
+    };
+
+    const found = take();
+    if (found) return found;
+
+    return new Promise((resolve, reject) => {
+      const onSms = () => {
+        const sms = take();
+        if (!sms) return;
+        clearTimeout(timer);
+        this.events.off("sms", onSms);
+        resolve(sms);
+      };
+      const timer = setTimeout(() => {
+        this.events.off("sms", onSms);
+        reject(new Error(
+          `SmsReceiver: No SMS${query.to ? ` to ${query.to}` : ""}` +
+          `${query.body ? ` matching ${query.body}` : ""} within ${timeoutMs} ms`
+        ));
+      }, timeoutMs);
+      this.events.on("sms", onSms);
+    });
+  }
+
+  /**
+   * Drop every message received so far.
+   */
+  clear(): void {
+    this.inbox.length = 0;
+  }
+
+  /**
+   * Stop listening and close open connections.
+   */
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private matches(sms: ReceivedSms, query: SmsQuery): boolean {
+    if (query.to && sms.to !== normalizeNumber(query.to)) return false;
+    if (typeof query.body === "string" && !sms.body.includes(query.body)) return false;
+    if (query.body instanceof RegExp && !query.body.test(sms.body)) return false;
+    return true;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" }).end();
+      return;
+    }
+    let raw = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (raw += chunk));
+    req.on("end", () => {
+      let sms: ReceivedSms;
+      try {
+        sms = { ...parsePayload(raw, req.headers["content-type"] ?? ""), receivedAt: Date.now() };
+      } catch (e) {
+        res.writeHead(400, { "Content-Type": "text/plain" }).end(`SmsReceiver: ${(e as Error).message}`);
+        return;
+      }
+      this.inbox.push(sms);
+      this.events.emit("sms", sms);
+      res.writeHead(204).end();
+    });
+  }
+}
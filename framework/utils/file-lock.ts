@@ -0,0 +1,190 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Options for {@link withFileLock} and {@link withFileLockSync}.
+ */
+export type FileLockOptions = {
+  /** How long to wait for the lock before failing. Defaults to 10 s. */
+  timeoutMs?: number;
+  /** Delay between attempts. Defaults to 25 ms. */
+  retryMs?: number;
+  /**
+   * A lock older than this is considered abandoned (e.g. its process
+   * crashed) and is taken over. Defaults to 30 s.
+   */
+  staleMs?: number;
+};
+
+/**
+ * Whether a process with the given id is still running.
+ */
+export function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Read the token of the lock file at `file` and its age, from the same
+ * open file so both belong to the same lock.
+ *
+ * @returns `undefined` if there is no lock file (any more).
+ */
+function readLock(file: string): { token: string; age: number } | undefined {
+  let fd: number;
+  try {
+    fd = fs.openSync(file, "r");
+  } catch {
+    return undefined;
+  }
+  try {
+    return { token: fs.readFileSync(fd, "utf8"), age: Date.now() - fs.fstatSync(fd).mtimeMs };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Whether a lock is abandoned: its owner is gone or it is older than `staleMs`.
+ */
+function isStale(lock: { token: string; age: number }, staleMs: number): boolean {
+  const owner = parseInt(lock.token, 10);
+  return lock.age > staleMs || (owner > 0 && !isAlive(owner));
+}
+
+/**
+ * Remove `file` if it still holds `token`, without racing other processes
+ * removing or creating it.
+ *
+ * Removal of a given token is first claimed by creating a marker named
+ * after it (exclusive create), so at most one process removes it. While
+ * the claimant checks the token and removes the file, nobody else can
+ * remove it, and nobody can create a new lock since it exists: the file
+ * removed is the one checked. A live lock is never moved or touched.
+ *
+ * If another process holds the claim, it does the removal; if that
+ * process died meanwhile, its claim is removed the same way so that the
+ * next attempt can proceed.
+ */
+function removeIfHolds(file: string, token: string): void {
+  const marker = `${file}.${crypto.createHash("sha256").update(token).digest("hex").slice(0, 16)}.removing`;
+  try {
+    fs.writeFileSync(marker, `${process.pid} ${crypto.randomBytes(8).toString("hex")}`, { flag: "wx" });
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+    const claim = readLock(marker);
+    if (claim && !isAlive(parseInt(claim.token, 10))) removeIfHolds(marker, claim.token);
+    return;
+  }
+  try {
+    if (readLock(file)?.token === token) fs.rmSync(file, { force: true });
+  } finally {
+    fs.rmSync(marker, { force: true });
+  }
+}
+
+/**
+ * Try to create the lock file once. If the current lock is stale, removes
+ * exactly that lock (see {@link removeIfHolds}) for the next attempt.
+ *
+ * @returns The token written to the lock file if it was acquired, to
+ *          release only our own lock later.
+ */
+function tryAcquire(lockPath: string, staleMs: number): string | undefined {
+  const token = `${process.pid} ${crypto.randomBytes(8).toString("hex")}`;
+  try {
+    fs.writeFileSync(lockPath, token, { flag: "wx" });
+    return token;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+  }
+
+  const current = readLock(lockPath);
+  if (current && isStale(current, staleMs)) removeIfHolds(lockPath, current.token);
+  return undefined;
+}
+
+/**
+ * Remove the lock file if it still holds `token`: after holding it longer
+ * than `staleMs`, another process may own it now.
+ */
+function release(lockPath: string, token: string): void {
+  try {
+    removeIfHolds(lockPath, token);
+  } catch {
+    // The lock directory is gone: nothing to release.
+  }
+}
+
+/**
+ * Block the current thread for `ms` milliseconds.
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Replace `file` with `content` atomically (write a temp file, then rename),
+ * so readers that do not hold the lock never see a half-written file.
+ * Creates the parent directory if needed.
+ */
+export function writeFileAtomic(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, content);
+  fs.renameSync(tmp, file);
+}
+
+/**
+ * Run `fn` while holding an exclusive lock on `lockPath`, shared by every
+ * process on the machine (e.g. all Playwright workers).
+ *
+ * Synchronous variant for short critical sections (reading and writing a
+ * small JSON file); prefer {@link withFileLock} in async code.
+ *
+ * @throws If the lock cannot be acquired within `timeoutMs`.
+ */
+export function withFileLockSync<T>(lockPath: string, fn: () => T, opts: FileLockOptions = {}): T {
+  const { timeoutMs = 10_000, retryMs = 25, staleMs = 30_000 } = opts;
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  const deadline = Date.now() + timeoutMs;
+  let token: string | undefined;
+  while (!(token = tryAcquire(lockPath, staleMs))) {
+    if (Date.now() > deadline) throw new Error(`FileLock: Timed out after ${timeoutMs} ms waiting for ${lockPath}`);
+    sleepSync(retryMs);
+  }
+  try {
+    return fn();
+  } finally {
+    release(lockPath, token);
+  }
+}
+
+/**
+ * Async variant of {@link withFileLockSync}: waits without blocking the
+ * event loop.
+ *
+ * @throws If the lock cannot be acquired within `timeoutMs`.
+ */
+export async function withFileLock<T>(lockPath: string, fn: () => T | Promise<T>, opts: FileLockOptions = {}): Promise<T> {
+  const { timeoutMs = 10_000, retryMs = 25, staleMs = 30_000 } = opts;
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  const deadline = Date.now() + timeoutMs;
+  let token: string | undefined;
+  while (!(token = tryAcquire(lockPath, staleMs))) {
+    if (Date.now() > deadline) throw new Error(`FileLock: Timed out after ${timeoutMs} ms waiting for ${lockPath}`);
+    await new Promise(resolve => setTimeout(resolve, retryMs));
+  }
+  try {
+    return await fn();
+  } finally {
+    release(lockPath, token);
+  }
+}
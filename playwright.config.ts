@@ -1,18 +1,29 @@
 import { defineConfig, devices } from '@playwright/test';
+import { Env } from './framework/env/env';
+import { registerKnownSecrets } from './framework/security/known-secrets';
 
 /**
- * Read environment variables from file.
- * https://github.com/motdotla/dotenv
+ * Environment variables are loaded by `Env` from layered files:
+ * `.env`, then `.env.<profile>`, then `.env.<profile>.local`,
+ * where the profile is selected with `TEST_ENV` (e.g. `TEST_ENV=staging`).
+ * Real environment variables always win over the files.
  */
-// import dotenv from 'dotenv';
-// import path from 'path';
-// dotenv.config({ path: path.resolve(__dirname, '.env') });
+
+/**
+ * Secret values (env keys, account passwords, OTP URIs and the codes derived
+ * from them) are masked in the report, attachments, output, error messages
+ * and framework logs. This file is loaded by the runner and by every worker,
+ * so both register the same secrets.
+ */
+registerKnownSecrets();
 
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
 export default defineConfig({
   testDir: './tests',
+  /* Run-wide preparation, e.g. OTP clock-skew calibration. */
+  globalSetup: './framework/setup/global-setup.ts',
   /* Run tests in files in parallel */
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -22,7 +33,14 @@ export default defineConfig({
   /* Opt out of parallel tests on CI. */
   workers: process.env.CI ? 1 : undefined,
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
-  reporter: [['html', { open: 'never' }]],
+  /* The redaction reporter must stay first so the others only see masked results. */
+  reporter: [
+    ['./framework/reporters/redaction-reporter.ts'],
+    ['./framework/reporters/env-audit-reporter.ts'],
+    ['html', { open: 'never' }],
+  ],
+  /* Expose the active env profile in the report. */
+  metadata: { profile: Env.profile ?? 'default', envFiles: Env.files.join(', ') },
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('/')`. */
@@ -47,13 +65,21 @@ export default defineConfig({
   /* Configure projects for major browsers */
   projects: [
 
+    /* Browser-free tests of the framework itself (tests/unit), run with `npm run test:unit`. */
+    {
+      name: 'unit',
+      testDir: './tests/unit',
+    },
+
     {
       name: 'Google Chrome',
+      testIgnore: 'unit/**',
       use: { ...devices['Desktop Chrome'], channel: 'chrome' },
     },
 
     {
       name: 'Firefox',
+      testIgnore: 'unit/**',
       use: { ...devices['Desktop Firefox'] },
     },
 
@@ -0,0 +1,114 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseCsv } from '@framework/data/csv';
+import { DataValidationError, loadData, resolveDataFile } from '@framework/data/data-set';
+import { eachRow } from '@framework/data/data-driven';
+
+const SCHEMA = {
+  case:     { type: 'string' },
+  attempts: { type: 'number', default: 1 },
+  locked:   { type: 'boolean', required: false },
+  role:     { type: 'enum', values: ['admin', 'viewer'] },
+  tags:     { type: 'list', sep: '|', required: false },
+} as const;
+
+test.describe('parseCsv', () => {
+  test('reads quoted fields, escaped quotes and multi-line values', () => {
+    const text = '\uFEFFcase, message\r\n"comma, inside","He said ""no"""\n\nmulti,"line one\nline two"\nshort\n';
+    expect(parseCsv(text)).toEqual([
+      { case: 'comma, inside', message: 'He said "no"' },
+      { case: 'multi', message: 'line one\nline two' },
+      { case: 'short', message: '' },
+    ]);
+    expect(parseCsv('a;b\n1;"2;3"', ';')).toEqual([{ a: '1', b: '2;3' }]);
+  });
+
+  test('rejects extra fields and unterminated quotes', () => {
+    expect(() => parseCsv('a,b\n1,2,3')).toThrow('CSV: Line 2 has 3 fields, the header has 2');
+    expect(() => parseCsv('a\n"open')).toThrow('CSV: Unterminated quoted field');
+  });
+});
+
+test.describe('loadData', () => {
+  let dir: string;
+
+  test.beforeEach(async ({}, testInfo) => {
+    dir = testInfo.outputPath('data');
+    fs.mkdirSync(path.join(dir, 'staging'), { recursive: true });
+  });
+
+  test('converts CSV and YAML rows to the schema types', () => {
+    fs.writeFileSync(path.join(dir, 'cases.csv'), 'case,attempts,locked,role,tags\nwrong password,3,yes,admin,a|b\nempty,,,viewer,\n');
+    fs.writeFileSync(path.join(dir, 'cases.yaml'), '- case: wrong password\n  attempts: 3\n  locked: true\n  role: admin\n  tags: [a, b]\n- { case: empty, role: viewer }\n');
+
+    const expected = [
+      { case: 'wrong password', attempts: 3, locked: true, role: 'admin', tags: ['a', 'b'] },
+      { case: 'empty', attempts: 1, locked: undefined, role: 'viewer', tags: undefined },
+    ];
+    const csv = loadData('cases.csv', SCHEMA, { dir, profile: null });
+    expect(csv).toEqual(expected);
+    expect(Object.isFrozen(csv[0])).toBe(true);
+    expect(loadData('cases.yaml', SCHEMA, { dir, profile: null })).toEqual(expected);
+  });
+
+  test('lists every issue of every row at once', () => {
+    const file = path.join(dir, 'bad.json');
+    fs.writeFileSync(file, JSON.stringify([
+      { case: 'ok', role: 'admin' },
+      { attempts: 'many', role: 'owner', typo: 1 },
+    ]));
+
+    let error: unknown;
+    try {
+      loadData('bad.json', { ...SCHEMA, case: { type: 'string', description: 'Test title' } }, { dir, profile: null });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(DataValidationError);
+    expect((error as DataValidationError).issues).toEqual([
+      { row: 2, column: 'typo', message: 'Not declared in the schema' },
+      { row: 2, column: 'case', message: 'Missing value (Test title)' },
+      { row: 2, column: 'attempts', message: 'Expected a number, got "many"' },
+      { row: 2, column: 'role', message: 'Expected one of admin, viewer, got "owner"' },
+    ]);
+    expect((error as Error).message).toContain(`Invalid test data in ${file} (4 issue(s)):\n  - row 2, typo:`);
+  });
+
+  test('rejects unsupported formats and files that are not arrays of objects', () => {
+    fs.writeFileSync(path.join(dir, 'cases.txt'), '');
+    fs.writeFileSync(path.join(dir, 'object.json'), '{"case": "x"}');
+    expect(() => loadData('cases.txt', SCHEMA, { dir, profile: null })).toThrow('Unsupported format, use .json, .yaml, .yml or .csv');
+    expect(() => loadData('object.json', SCHEMA, { dir, profile: null })).toThrow('must hold an array of objects (one per row)');
+  });
+
+  test("prefers the profile's copy of a file", () => {
+    fs.writeFileSync(path.join(dir, 'cases.json'), '[{"case": "shared", "role": "admin"}]');
+    fs.writeFileSync(path.join(dir, 'staging', 'cases.json'), '[{"case": "staging", "role": "admin"}]');
+    fs.writeFileSync(path.join(dir, 'only-shared.json'), '[]');
+
+    expect(loadData('cases.json', SCHEMA, { dir, profile: 'staging' })[0].case).toBe('staging');
+    expect(loadData('cases.json', SCHEMA, { dir, profile: 'prod' })[0].case).toBe('shared');
+    expect(loadData('cases.json', SCHEMA, { dir, profile: null })[0].case).toBe('shared');
+    expect(resolveDataFile('only-shared.json', { dir, profile: 'staging' })).toBe(path.join(dir, 'only-shared.json'));
+    expect(() => resolveDataFile('missing.json', { dir, profile: 'staging' })).toThrow(
+      `Data: missing.json not found (looked in ${path.join(dir, 'staging', 'missing.json')}, ${path.join(dir, 'missing.json')})`
+    );
+  });
+});
+
+test.describe('eachRow', () => {
+  test('formats titles and keeps them unique', () => {
+    const rows = [{ case: 'empty' }, { case: 'empty' }, { case: 'long' }];
+    expect(eachRow(rows, 'Login fails: {case} #{index} {missing}').map(r => r.title)).toEqual([
+      'Login fails: empty #1 {missing}',
+      'Login fails: empty #2 {missing}',
+      'Login fails: long #3 {missing}',
+    ]);
+    expect(eachRow(rows, row => row.case)).toEqual([
+      { title: 'empty', row: rows[0], index: 0 },
+      { title: 'empty (row 2)', row: rows[1], index: 1 },
+      { title: 'long', row: rows[2], index: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { scanDeclarations, writeEnvExample } from '@framework/env/doctor';
+import { frameworkPath } from '../support/child-process';
+
+test.describe('env doctor', () => {
+  let root: string;
+
+  test.beforeEach(async ({}, testInfo) => {
+    root = testInfo.outputPath('project');
+    fs.mkdirSync(path.join(root, 'framework', 'fixtures'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'framework', 'fixtures', 'config.ts'), `
+      import { Env } from ${JSON.stringify(frameworkPath('env/env'))};
+      const THEMES = ['light', 'dark'] as const;
+      Env.declare({
+        DOCTOR_THEME: { type: 'enum', values: THEMES, default: 'light', description: 'UI theme' },
+        DOCTOR_PORT:  { type: 'port', required: false },
+        DOCTOR_TOKEN: { type: 'string', secret: true },
+      });
+    `);
+    fs.writeFileSync(path.join(root, 'framework', 'reader.ts'), `
+      import { Env } from ${JSON.stringify(frameworkPath('env/env'))};
+      export const dir = Env.getString('DOCTOR_DIR', false) ?? 'out';
+    `);
+  });
+
+  test('takes types, enum values and defaults from Env.declare', () => {
+    const vars = scanDeclarations(root, ['framework']);
+    const byKey = Object.fromEntries(vars.filter(v => v.key.startsWith('DOCTOR_')).map(v => [v.key, v]));
+
+    expect(byKey.DOCTOR_THEME).toMatchObject({ type: 'enum', values: ['light', 'dark'], default: 'light', required: false });
+    expect(byKey.DOCTOR_THEME.usages).toEqual([path.join('framework', 'fixtures', 'config.ts')]);
+    expect(byKey.DOCTOR_PORT).toMatchObject({ type: 'port', required: false });
+    expect(byKey.DOCTOR_TOKEN).toMatchObject({ type: 'string', required: true, secret: true });
+    expect(byKey.DOCTOR_DIR).toMatchObject({ type: 'string', required: false });
+  });
+
+  test('writes safe placeholders to .env.example', () => {
+    const vars = scanDeclarations(root, ['framework']).filter(v => v.key.startsWith('DOCTOR_'));
+    const file = path.join(root, '.env.example');
+    writeEnvExample(vars, file);
+
+    const example = fs.readFileSync(file, 'utf8');
+    expect(example).toContain('# UI theme (enum, optional, one of: light, dark)\nDOCTOR_THEME=light\n');
+    expect(example).toContain('\nDOCTOR_PORT=\n');
+    expect(example).toContain('# (string, required, secret)\nDOCTOR_TOKEN=\n');
+  });
+
+  test('regenerates the declared section of .env.example and keeps lines added by hand', () => {
+    const vars = scanDeclarations(root, ['framework']).filter(v => v.key.startsWith('DOCTOR_'));
+    const file = path.join(root, '.env.example');
+    fs.writeFileSync(file, [
+      '# Old description',
+      'DOCTOR_THEME=dark',
+      'DOCTOR_REMOVED=1',
+      '',
+      '# Local mock server',
+      'MOCK_URL=http://localhost:4010',
+      '',
+    ].join('\n'));
+
+    expect(writeEnvExample(vars, file)).toEqual(['DOCTOR_DIR', 'DOCTOR_PORT', 'DOCTOR_TOKEN']);
+    const example = fs.readFileSync(file, 'utf8');
+    expect(example).toContain('# UI theme (enum, optional, one of: light, dark)\nDOCTOR_THEME=light\n');
+    expect(example).not.toContain('Old description');
+    expect(example.endsWith('\n# Added by hand (kept by env doctor):\nDOCTOR_REMOVED=1\n\n# Local mock server\nMOCK_URL=http://localhost:4010\n')).toBe(true);
+
+    // Once regenerated, a variable no longer declared is dropped unless it was added by hand.
+    writeEnvExample(vars.filter(v => v.key !== 'DOCTOR_PORT'), file);
+    const again = fs.readFileSync(file, 'utf8');
+    expect(again).not.toContain('DOCTOR_PORT');
+    expect(again).toContain('DOCTOR_REMOVED=1');
+    expect(again).toContain('MOCK_URL=http://localhost:4010');
+  });
+});
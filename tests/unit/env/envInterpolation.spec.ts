@@ -0,0 +1,35 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { frameworkPath, runChild } from '../support/child-process';
+
+test.describe('Env interpolation', () => {
+  test('expands references in .env files but uses real environment values as is', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('project');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, '.env'), [
+      'BASE_URL=https://id.example.com',
+      'LOGIN_URL=${BASE_URL}/login',
+      'FALLBACK=${MISSING_VAR:-none}',
+      'ESCAPED=\\${BASE_URL}',
+      'COPY_OF_PASSWORD=${PASSWORD}',
+    ].join('\n'));
+
+    const result = runChild<Record<string, string>>(dir, `
+      import { Env } from ${JSON.stringify(frameworkPath('env/env'))};
+      const keys = ['LOGIN_URL', 'FALLBACK', 'ESCAPED', 'PASSWORD', 'COPY_OF_PASSWORD'];
+      const values = Object.fromEntries(keys.map(k => [k, Env.getString(k)]));
+      const overridden = Env.withOverrides({ PASSWORD: '\${BASE_URL}' }, () => Env.getString('PASSWORD'));
+      console.log(JSON.stringify({ ...values, overridden }));
+    `, { ...process.env, PASSWORD: 'p@ss${word}' });
+
+    expect(result).toEqual({
+      LOGIN_URL: 'https://id.example.com/login',
+      FALLBACK: 'none',
+      ESCAPED: '${BASE_URL}',
+      PASSWORD: 'p@ss${word}',
+      COPY_OF_PASSWORD: 'p@ss${word}',
+      overridden: 'https://id.example.com',
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadEnv } from '@framework/env/loader';
+import { frameworkPath, runChild } from '../support/child-process';
+
+/**
+ * Set process.env values for one test, restoring them afterwards.
+ */
+function withProcessEnv<R>(values: Record<string, string | undefined>, fn: () => R): R {
+  const previous = Object.fromEntries(Object.keys(values).map(k => [k, process.env[k]]));
+  const apply = (vars: Record<string, string | undefined>) => {
+    for (const [k, v] of Object.entries(vars)) {
+      if (v === undefined) delete process.env[k];
+      else process.env[k] = v;
+    }
+  };
+  apply(values);
+  try {
+    return fn();
+  } finally {
+    apply(previous);
+  }
+}
+
+test.describe('loadEnv', () => {
+  let dir: string;
+
+  test.beforeEach(async ({}, testInfo) => {
+    dir = testInfo.outputPath('project');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, '.env'), 'SHARED=base\nLAYER=base\nONLY_BASE=1\n');
+    fs.writeFileSync(path.join(dir, '.env.staging'), 'LAYER=staging\nPROFILE_ONLY=yes\n');
+    fs.writeFileSync(path.join(dir, '.env.staging.local'), 'LAYER=local\n');
+  });
+
+  test('applies the files by precedence, with the real environment on top', () => {
+    const loaded = withProcessEnv({ TEST_ENV: 'staging', SHARED: 'from-shell' }, () => loadEnv(dir));
+
+    expect(loaded.profile).toBe('staging');
+    expect(loaded.files).toEqual(['.env', '.env.staging', '.env.staging.local']);
+    expect(loaded.values).toMatchObject({ SHARED: 'from-shell', LAYER: 'local', ONLY_BASE: '1', PROFILE_ONLY: 'yes' });
+    expect(loaded.sources).toMatchObject({
+      SHARED: 'process.env',
+      LAYER: '.env.staging.local',
+      ONLY_BASE: '.env',
+      PROFILE_ONLY: '.env.staging',
+    });
+    expect(loaded.fileValues.SHARED).toBe('base');
+  });
+
+  test('does not copy file values into process.env', () => {
+    withProcessEnv({ TEST_ENV: 'staging' }, () => loadEnv(dir));
+    expect(process.env.ONLY_BASE).toBeUndefined();
+    expect(process.env.LAYER).toBeUndefined();
+  });
+
+  test('a forked process reports file sources and picks up file edits on reload', () => {
+    // The parent loads first, as the Playwright runner does before forking workers.
+    withProcessEnv({ TEST_ENV: 'staging' }, () => loadEnv(dir));
+
+    const result = runChild<{ layer: string; base: string; reloaded: string }>(dir, `
+      import * as fs from 'fs';
+      import { Env } from ${JSON.stringify(frameworkPath('env/env'))};
+      const before = { layer: Env.source('LAYER'), base: Env.source('ONLY_BASE') };
+      fs.writeFileSync('.env', 'SHARED=base\\nLAYER=base\\nONLY_BASE=2\\n');
+      Env.reload();
+      console.log(JSON.stringify({ ...before, reloaded: Env.getString('ONLY_BASE') }));
+    `, { ...process.env, TEST_ENV: 'staging' });
+
+    expect(result).toEqual({ layer: '.env.staging.local', base: '.env', reloaded: '2' });
+  });
+});
@@ -0,0 +1,83 @@
+import { test, expect } from '@playwright/test';
+import { Env, parseDuration } from '@env';
+
+/**
+ * Read a single variable with the given raw value.
+ */
+function read<R>(value: string | undefined, getter: (key: string) => R): R {
+  return Env.withOverrides({ PARSED_VAR: value }, () => getter('PARSED_VAR'));
+}
+
+test.describe('parseDuration', () => {
+  test('accepts plain milliseconds, units, combinations and fractions', () => {
+    expect(parseDuration('1500')).toBe(1500);
+    expect(parseDuration('1500ms')).toBe(1500);
+    expect(parseDuration('30s')).toBe(30_000);
+    expect(parseDuration('2m')).toBe(120_000);
+    expect(parseDuration('1h')).toBe(3_600_000);
+    expect(parseDuration('1d')).toBe(86_400_000);
+    expect(parseDuration('1m30s')).toBe(90_000);
+    expect(parseDuration(' 1.5S ')).toBe(1500);
+  });
+
+  test('rejects anything else', () => {
+    for (const text of ['', 'soon', '10 s', '-5s', '1w', 's', '1m 30s']) {
+      expect(parseDuration(text), text).toBeUndefined();
+    }
+  });
+});
+
+test.describe('Env getters', () => {
+  test('getNumber applies min, max and integer constraints', () => {
+    const workers = (key: string) => Env.getNumber(key, true, undefined, { min: 1, max: 8, integer: true });
+
+    expect(read('4', workers)).toBe(4);
+    expect(() => read('1.5', workers)).toThrow('must be an integer, got "1.5"');
+    expect(() => read('0', workers)).toThrow('must be >= 1, got 0');
+    expect(() => read('9', workers)).toThrow('must be <= 8, got 9');
+    expect(() => read('many', workers)).toThrow('is not a valid number: "many"');
+  });
+
+  test('getBoolean accepts the documented spellings only', () => {
+    for (const raw of ['true', '1', 'YES', 'on']) expect(read(raw, k => Env.getBoolean(k)), raw).toBe(true);
+    for (const raw of ['false', '0', 'No', 'off']) expect(read(raw, k => Env.getBoolean(k)), raw).toBe(false);
+    expect(() => read('maybe', k => Env.getBoolean(k))).toThrow('is not a valid boolean: "maybe"');
+  });
+
+  test('getUrl checks the protocol', () => {
+    expect(read('https://example.com/login', k => Env.getUrl(k)).pathname).toBe('/login');
+    expect(read('wss://example.com', k => Env.getUrl(k, true, undefined, ['wss:'])).protocol).toBe('wss:');
+    expect(() => read('ftp://example.com', k => Env.getUrl(k))).toThrow('must use one of [http:, https:], got "ftp:"');
+    expect(() => read('example.com', k => Env.getUrl(k))).toThrow('is not a valid URL');
+  });
+
+  test('getDuration and getPort', () => {
+    expect(read('1m30s', k => Env.getDuration(k))).toBe(90_000);
+    expect(() => read('later', k => Env.getDuration(k))).toThrow('is not a valid duration');
+
+    expect(read('8080', k => Env.getPort(k))).toBe(8080);
+    for (const raw of ['0', '65536', '80.5', '-1']) {
+      expect(() => read(raw, k => Env.getPort(k)), raw).toThrow('is not a valid port');
+    }
+  });
+
+  test('getRegex accepts a pattern or a /literal/flags', () => {
+    expect(read('\\d{6}', k => Env.getRegex(k)).test('code 123456')).toBe(true);
+    expect(read('/^otp$/i', k => Env.getRegex(k)).flags).toBe('i');
+    expect(read('code', k => Env.getRegex(k, true, undefined, 'g')).flags).toBe('g');
+    expect(() => read('(', k => Env.getRegex(k))).toThrow('is not a valid regular expression');
+  });
+
+  test('getDate accepts ISO 8601 and epoch milliseconds', () => {
+    expect(read('2024-01-02T03:04:05Z', k => Env.getDate(k)).getTime()).toBe(Date.UTC(2024, 0, 2, 3, 4, 5));
+    expect(read('0', k => Env.getDate(k)).getTime()).toBe(0);
+    expect(() => read('yesterday', k => Env.getDate(k))).toThrow('is not a valid date');
+  });
+
+  test('optional getters fall back to the default when unset', () => {
+    expect(read(undefined, k => Env.getDuration(k, false, 5000))).toBe(5000);
+    expect(read(undefined, k => Env.getPort(k, false, 2525))).toBe(2525);
+    expect(read(undefined, k => Env.getUrl(k, false, 'http://localhost')).host).toBe('localhost');
+    expect(() => read(undefined, k => Env.getPort(k))).toThrow('Missing environment variable: PARSED_VAR');
+  });
+});
@@ -0,0 +1,44 @@
+import { test, expect } from '@playwright/test';
+import { Env, EnvValidationError } from '@env';
+
+test.describe('Env.schema', () => {
+  test('returns typed, frozen values with defaults applied', () => {
+    const config = Env.withOverrides({ APP_URL: 'https://example.com', RETRIES: '3', DEBUG: 'yes', BROWSER: undefined }, () =>
+      Env.schema({
+        APP_URL: { type: 'url' },
+        RETRIES: { type: 'number', integer: true, min: 0 },
+        DEBUG:   { type: 'boolean', required: false },
+        BROWSER: { type: 'enum', values: ['chrome', 'firefox'], default: 'chrome' },
+      }));
+
+    expect(config.APP_URL.hostname).toBe('example.com');
+    expect(config.RETRIES).toBe(3);
+    expect(config.DEBUG).toBe(true);
+    expect(config.BROWSER).toBe('chrome');
+    expect(Object.isFrozen(config)).toBe(true);
+  });
+
+  test('reports every missing or invalid variable at once', () => {
+    const error = Env.withOverrides({ MISSING_ONE: undefined, BAD_NUMBER: 'ten', BAD_ENUM: 'safari' }, () => {
+      try {
+        Env.schema({
+          MISSING_ONE: { type: 'string', description: 'Needed for login' },
+          BAD_NUMBER:  { type: 'number' },
+          BAD_ENUM:    { type: 'enum', values: ['chrome', 'firefox'] },
+        });
+      } catch (e) {
+        return e;
+      }
+    });
+
+    expect(error).toBeInstanceOf(EnvValidationError);
+    const { issues } = error as EnvValidationError;
+    expect(issues.map(i => i.key)).toEqual(['MISSING_ONE', 'BAD_NUMBER', 'BAD_ENUM']);
+    expect(issues[0].message).toContain('Needed for login');
+  });
+
+  test('marks secret fields', () => {
+    Env.withOverrides({ SCHEMA_TOKEN: 'tok-123456' }, () => Env.schema({ SCHEMA_TOKEN: { type: 'string', secret: true } }));
+    expect(Env.isSecret('SCHEMA_TOKEN')).toBe(true);
+  });
+});
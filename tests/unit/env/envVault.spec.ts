@@ -0,0 +1,89 @@
+import { test, expect } from '@playwright/test';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { decrypt, encrypt, generateKey, isEncrypted } from '@framework/env/vault';
+import { frameworkPath, runChild } from '../support/child-process';
+
+test.describe('vault', () => {
+  test('decrypts what it encrypted', () => {
+    const key = generateKey();
+    const body = encrypt('API_TOKEN=t0ken\n', key);
+
+    expect(isEncrypted(body)).toBe(true);
+    expect(body).not.toContain('t0ken');
+    expect(decrypt(body, key)).toBe('API_TOKEN=t0ken\n');
+  });
+
+  test('detects a modified file or a wrong key', () => {
+    const key = generateKey();
+    const body = encrypt('API_TOKEN=t0ken\n', key);
+    const payload = body.trimEnd().split('\n').pop()!;
+    const flipped = payload.slice(0, -2) + (payload.at(-2) === 'A' ? 'B' : 'A') + payload.at(-1);
+
+    expect(() => decrypt(body.replace(payload, flipped), key)).toThrow('Vault: Decryption failed (wrong key or modified file)');
+    expect(() => decrypt(body, generateKey())).toThrow('Vault: Decryption failed');
+    expect(() => decrypt(body, 'c2hvcnQ=')).toThrow('must be 32 bytes');
+    expect(() => decrypt('API_TOKEN=t0ken', key)).toThrow('No vault:v1: payload found');
+  });
+
+  test('a forked worker decrypts the vault itself and treats its values and key as secret', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('project');
+    fs.mkdirSync(dir, { recursive: true });
+    const key = generateKey();
+    fs.writeFileSync(path.join(dir, '.env.vault'), encrypt('VAULT_TOKEN=V4ultT0ken\n', key));
+
+    const result = runChild<{ secret: boolean; source: string; inProcessEnv: boolean; lines: string[] }>(dir, `
+      import { Env } from ${JSON.stringify(frameworkPath('env/env'))};
+      import { Logger } from ${JSON.stringify(frameworkPath('logger/logger'))};
+      const lines: string[] = [];
+      console.log = (line: string) => lines.push(line);
+      Logger.for('child').info('token %s, key %s', Env.getString('VAULT_TOKEN'), process.env.ENV_VAULT_KEY);
+      process.stdout.write(JSON.stringify({
+        secret: Env.isSecret('VAULT_TOKEN') && Env.isSecret('ENV_VAULT_KEY'),
+        source: Env.source('VAULT_TOKEN'),
+        inProcessEnv: 'VAULT_TOKEN' in process.env,
+        lines,
+      }));
+    `, { ...process.env, ENV_VAULT_KEY: key });
+
+    expect(result).toEqual({ secret: true, source: '.env.vault', inProcessEnv: false, lines: ['[child] token ******, key ******'] });
+  });
+
+  test('registers a key read from .env.vault.key as secret', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('project');
+    fs.mkdirSync(dir, { recursive: true });
+    const key = generateKey();
+    fs.writeFileSync(path.join(dir, '.env.vault.key'), `${key}\n`);
+    fs.writeFileSync(path.join(dir, '.env.vault'), encrypt('VAULT_TOKEN=V4ultT0ken\n', key));
+
+    const { ENV_VAULT_KEY, ENV_VAULT_KEY_FILE, ...env } = process.env;
+    const result = runChild<{ masked: string }>(dir, `
+      import { Env } from ${JSON.stringify(frameworkPath('env/env'))};
+      import { Secrets } from ${JSON.stringify(frameworkPath('security/secrets'))};
+      Env.getString('VAULT_TOKEN');
+      console.log(JSON.stringify({ masked: Secrets.mask('key ${key}') }));
+    `, env);
+
+    expect(result).toEqual({ masked: 'key ******' });
+  });
+
+  test('the CLI finds the key in a .env file, like the tests do', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('project');
+    fs.mkdirSync(dir, { recursive: true });
+    const key = generateKey();
+    fs.writeFileSync(path.join(dir, '.env'), `ENV_VAULT_KEY=${key}\n`);
+    fs.writeFileSync(path.join(dir, 'secrets.env'), 'API_TOKEN=t0ken\n');
+
+    const { ENV_VAULT_KEY, ENV_VAULT_KEY_FILE, ...env } = process.env;
+    const result = spawnSync(process.execPath, [require.resolve('tsx/cli'), frameworkPath('env/vault-cli.ts'), 'encrypt', 'secrets.env'], {
+      cwd: dir,
+      env,
+      encoding: 'utf8',
+      timeout: 60_000,
+    });
+
+    expect(result.status, result.stderr).toBe(0);
+    expect(decrypt(fs.readFileSync(path.join(dir, 'secrets.env.vault'), 'utf8'), key)).toBe('API_TOKEN=t0ken\n');
+  });
+});
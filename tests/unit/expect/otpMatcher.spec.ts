@@ -0,0 +1,38 @@
+import { test, expect as baseExpect } from '@playwright/test';
+import * as OTPAuth from 'otpauth';
+import { expect } from '@framework/expect/matchers';
+import { MemoryCounterStore } from '@security/counter-store';
+import { OTP } from '@security/otp';
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+const hotp = new OTPAuth.HOTP({ secret: SECRET });
+
+test.describe('toBeValidOtp', () => {
+  test('checks HOTP codes without moving the counter', () => {
+    const otp = OTP.fromSecret(SECRET, { type: 'hotp', label: 'matcher', counterStore: new MemoryCounterStore() });
+    const code = hotp.generate({ counter: 0 });
+
+    expect(code).toBeValidOtp(otp);
+    expect(hotp.generate({ counter: 1 })).toBeValidOtp(otp, { window: 1 });
+    expect(hotp.generate({ counter: 2 })).not.toBeValidOtp(otp, { window: 1 });
+    baseExpect(() => expect(code).not.toBeValidOtp(otp)).toThrow('Matched:  step offset 0');
+    baseExpect(otp.getCounter()).toBe(0);
+    baseExpect(otp.getCode()).toBe(code);
+  });
+
+  test('consumes a valid HOTP code on request', () => {
+    const otp = OTP.fromSecret(SECRET, { type: 'hotp', label: 'matcher', counterStore: new MemoryCounterStore() });
+    const code = hotp.generate({ counter: 0 });
+
+    expect(code).toBeValidOtp(otp, { consume: true });
+    baseExpect(otp.getCounter()).toBe(1);
+    expect(code).not.toBeValidOtp(otp);
+  });
+
+  test('reports why a code is rejected', () => {
+    const otp = OTP.fromSecret(SECRET);
+    expect(otp.getCode()).toBeValidOtp(otp);
+    baseExpect(() => expect('12345').toBeValidOtp(otp)).toThrow('Reason:   wrong_length');
+    baseExpect(() => expect('12a456').toBeValidOtp(otp)).toThrow('Reason:   malformed');
+  });
+});
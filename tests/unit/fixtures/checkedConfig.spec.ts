@@ -0,0 +1,30 @@
+import { test, expect } from '@playwright/test';
+import { Env } from '@env';
+import { CheckedConfig } from '@framework/fixtures/config';
+
+test.describe('CheckedConfig', () => {
+  test('keeps valid values', () => {
+    const restore = Env.override({ CHECKED_PORT: '8080' });
+    try {
+      const checked = CheckedConfig.check(() => Env.schema({ CHECKED_PORT: { type: 'port' } }));
+      expect(checked.get()).toEqual({ CHECKED_PORT: 8080 });
+    } finally {
+      restore();
+    }
+  });
+
+  test('reports validation issues only when the values are read', () => {
+    const restore = Env.override({ CHECKED_PORT: 'eighty', MISSING_CONFIG: 'fail' });
+    let checked: CheckedConfig<unknown>;
+    try {
+      checked = CheckedConfig.check(() => Env.schema({ CHECKED_PORT: { type: 'port' } }));
+    } finally {
+      restore();
+    }
+    expect(() => checked.get()).toThrow(/^Missing configuration: CHECKED_PORT: /);
+  });
+
+  test('rethrows other errors straight away', () => {
+    expect(() => CheckedConfig.check(() => { throw new Error('boom'); })).toThrow('boom');
+  });
+});
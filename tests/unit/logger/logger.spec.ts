@@ -0,0 +1,29 @@
+import { test, expect } from '@playwright/test';
+import { Env } from '@env';
+import { Logger } from '@framework/logger/logger';
+
+test.describe('Logger', () => {
+  test('reads LOG_LEVEL once instead of on every write', () => {
+    const log = Logger.for('unit');
+    Env.withOverrides({ LOG_LEVEL: 'silent' }, () => {
+      log.info('first');
+      const start = Env.accessCount;
+      for (let i = 0; i < 10; i++) log.info('message %d', i);
+      expect(Env.accesses(start)).toEqual([]);
+    });
+  });
+
+  test('picks up a new level from a scoped override', () => {
+    const lines: string[] = [];
+    const original = console.log;
+    console.log = (line: string) => lines.push(line);
+    try {
+      const log = Logger.for('unit');
+      Env.withOverrides({ LOG_LEVEL: 'silent' }, () => log.info('hidden'));
+      Env.withOverrides({ LOG_LEVEL: 'debug' }, () => log.debug('shown'));
+    } finally {
+      console.log = original;
+    }
+    expect(lines).toEqual(['[unit] shown']);
+  });
+});
@@ -0,0 +1,113 @@
+import { test, expect } from '@playwright/test';
+import * as net from 'net';
+import { parseMail } from '@framework/mail/mail-parser';
+import { SmtpCatcher } from '@framework/mail/smtp-catcher';
+
+const MULTIPART = [
+  'From: App <no-reply@example.com>',
+  'To: bob@example.com',
+  'Subject: =?UTF-8?B?Vm90cmUgY29kZSDinJM=?=',
+  'X-Long: first part',
+  '  continued',
+  'Content-Type: multipart/alternative; boundary="outer"',
+  '',
+  'preamble',
+  '--outer',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Your code is 482913. Caf=C3=A9 =',
+  'au lait.',
+  '--outer',
+  'Content-Type: text/html; charset=utf-8',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('<p>Sign in: <a href="https://app.example.com/magic?t=abc&amp;u=1">link</a></p>').toString('base64'),
+  '--outer--',
+  '',
+].join('\r\n');
+
+/**
+ * Send one message through a minimal SMTP client, resolving once the server queued it.
+ */
+async function sendMail(port: number, to: string[], data: string): Promise<string[]> {
+  const socket = net.connect(port, '127.0.0.1');
+  socket.setEncoding('utf8');
+  const replies: string[] = [];
+  let pending = '';
+  let waiting: (() => void) | undefined;
+  socket.on('data', (chunk: string) => {
+    pending += chunk;
+    let index;
+    while ((index = pending.indexOf('\r\n')) !== -1) {
+      const line = pending.slice(0, index);
+      pending = pending.slice(index + 2);
+      replies.push(line);
+      if (/^\d{3} /.test(line)) waiting?.();
+    }
+  });
+  const command = (line: string) => new Promise<void>(resolve => {
+    waiting = resolve;
+    socket.write(`${line}\r\n`);
+  });
+
+  await new Promise<void>(resolve => waiting = resolve);
+  await command('EHLO client');
+  await command('AUTH PLAIN AGJvYgBzZWNyZXQ=');
+  await command('MAIL FROM:<No-Reply@Example.com> SIZE=100');
+  for (const rcpt of to) await command(`RCPT TO:<${rcpt}>`);
+  await command('DATA');
+  await command(`${data.split('\r\n').map(l => (l.startsWith('.') ? `.${l}` : l)).join('\r\n')}\r\n.`);
+  await command('QUIT');
+  socket.end();
+  return replies;
+}
+
+test.describe('parseMail', () => {
+  test('decodes headers, quoted-printable and base64 parts of a multipart message', () => {
+    const mail = parseMail(MULTIPART, { from: 'no-reply@example.com', to: ['bob@example.com'] });
+
+    expect(mail.subject).toBe('Votre code ✓');
+    expect(mail.headers['x-long']).toBe('first part continued');
+    expect(mail.text).toBe('Your code is 482913. Café au lait.');
+    expect(mail.html).toContain('href="https://app.example.com/magic?t=abc&amp;u=1"');
+    expect(mail.to).toEqual(['bob@example.com']);
+  });
+
+  test('reads a single-part message as text', () => {
+    const mail = parseMail('Subject: Hi\r\n\r\nplain body', { from: 'a@example.com', to: ['b@example.com'] });
+    expect(mail).toMatchObject({ subject: 'Hi', text: 'plain body', html: '' });
+  });
+});
+
+test.describe('SmtpCatcher', () => {
+  let catcher: SmtpCatcher;
+
+  test.beforeEach(async () => {
+    catcher = await SmtpCatcher.start();
+  });
+
+  test.afterEach(async () => {
+    await catcher.stop();
+  });
+
+  test('accepts a message over SMTP and returns it once', async () => {
+    const replies = await sendMail(catcher.port, ['Bob@Example.com', 'carol@example.com'], MULTIPART + '.hidden dot\r\n');
+    expect(replies).toContain('250 OK: queued');
+
+    const mail = await catcher.waitForMessage({ to: 'bob@example.com', subject: /code/, timeoutMs: 1000 });
+    expect(mail.from).toBe('no-reply@example.com');
+    expect(mail.to).toEqual(['bob@example.com', 'carol@example.com']);
+    expect(mail.raw).toContain('\r\n.hidden dot');
+    expect(catcher.messages).toEqual([]);
+  });
+
+  test('waits for a message sent later, and times out with the query', async () => {
+    const waiting = catcher.waitForMessage({ to: 'dave@example.com', timeoutMs: 5000 });
+    await sendMail(catcher.port, ['dave@example.com'], 'Subject: Later\r\n\r\nbody');
+    expect((await waiting).subject).toBe('Later');
+
+    await expect(catcher.waitForMessage({ to: 'nobody@example.com', timeoutMs: 100 }))
+      .rejects.toThrow('SmtpCatcher: No email to nobody@example.com within 100 ms');
+  });
+});
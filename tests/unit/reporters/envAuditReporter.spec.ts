@@ -0,0 +1,31 @@
+import { test, expect } from '@playwright/test';
+import type { FullResult, TestCase, TestResult } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import EnvAuditReporter from '@framework/reporters/env-audit-reporter';
+import { ENV_ACCESS_ATTACHMENT } from '@framework/env/fixtures';
+
+function result(body: string): TestResult {
+  return { attachments: [{ name: ENV_ACCESS_ATTACHMENT, contentType: 'application/json', body: Buffer.from(body) }] } as TestResult;
+}
+
+test.describe('EnvAuditReporter', () => {
+  test('skips attachments and records it cannot read', async ({}, testInfo) => {
+    const outputFile = testInfo.outputPath('env-audit.json');
+    const reporter = new EnvAuditReporter({ outputFile, manyTestsThreshold: 2 });
+
+    reporter.onTestEnd({ id: 'a' } as TestCase, result('{'));
+    reporter.onTestEnd({ id: 'b' } as TestCase, result('{"key": "AUDIT_A"}'));
+    reporter.onTestEnd({ id: 'c' } as TestCase, result(JSON.stringify([
+      { key: 'AUDIT_A', outcome: 'found', count: 2 },
+      { key: 'AUDIT_B', outcome: 'found' },
+      null,
+    ])));
+    reporter.onTestEnd({ id: 'd' } as TestCase, result('[{"key": "AUDIT_A", "outcome": "missing", "count": 1}]'));
+    reporter.onEnd({ status: 'passed' } as FullResult);
+
+    const summary = JSON.parse(fs.readFileSync(outputFile, 'utf8'));
+    expect(summary.read).toEqual([{ key: 'AUDIT_A', tests: 2, outcomes: { found: 2, missing: 1 } }]);
+    expect(summary.widelyUsed).toEqual(['AUDIT_A']);
+    expect(reporter.printsToStdio()).toBe(true);
+  });
+});
@@ -0,0 +1,76 @@
+import { test, expect } from '@playwright/test';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AccountPool } from '@security/account-pool';
+import { frameworkPath, runChildren } from '../support/child-process';
+
+test.describe('AccountPool', () => {
+  let file: string;
+
+  test.beforeEach(async ({}, testInfo) => {
+    file = testInfo.outputPath('leases.json');
+  });
+
+  test('leases each account once until it is released', async () => {
+    const pool = new AccountPool({ accounts: ['a', 'b'], file, waitMs: 0 });
+
+    const first = await pool.acquire('test 1');
+    const second = await pool.acquire('test 2');
+    expect([first.name, second.name]).toEqual(['a', 'b']);
+    await expect(pool.acquire('test 3')).rejects.toThrow(
+      'AccountPool: All 2 account(s) are leased after waiting 0 ms: a (test 1, pid'
+    );
+
+    await pool.release('a');
+    expect((await pool.acquire('test 3')).name).toBe('a');
+    expect((await pool.leases()).map(l => l.owner).sort()).toEqual(['test 2', 'test 3']);
+
+    await pool.releaseAll();
+    expect(await pool.leases()).toEqual([]);
+  });
+
+  test('keeps one lease per worker and fails on an empty pool', async () => {
+    const pool = new AccountPool({ accounts: ['a', 'b'], file, waitMs: 0 });
+    const lease = await pool.acquireForWorker('worker 0');
+    expect(await pool.acquireForWorker('worker 0')).toBe(lease);
+    await pool.releaseAll();
+
+    await expect(new AccountPool({ accounts: [], file }).acquire('test')).rejects.toThrow('AccountPool: No accounts to lease');
+  });
+
+  test('reclaims leases of processes that are gone', async () => {
+    const dead = spawnSync(process.execPath, ['-e', '0']).pid!;
+    fs.writeFileSync(file, JSON.stringify({ a: { name: 'a', pid: dead, owner: 'crashed worker', since: 0 } }));
+
+    const pool = new AccountPool({ accounts: ['a'], file, waitMs: 0 });
+    expect(await pool.acquire('test')).toMatchObject({ name: 'a', pid: process.pid });
+    await pool.releaseAll();
+  });
+
+  test('never lets two processes hold the same account at once', async () => {
+    const dir = path.dirname(file);
+    const holds = await runChildren<{ name: string; from: number; to: number }[]>(dir, `
+      import { AccountPool } from ${JSON.stringify(frameworkPath('security/account-pool'))};
+      (async () => {
+        const pool = new AccountPool({ accounts: ['a', 'b', 'c'], file: ${JSON.stringify(file)}, waitMs: 30_000 });
+        const holds = [];
+        for (let i = 0; i < 3; i++) {
+          const lease = await pool.acquire('child ' + process.env.CHILD_INDEX);
+          const from = Date.now();
+          await new Promise(resolve => setTimeout(resolve, 50));
+          holds.push({ name: lease.name, from, to: Date.now() });
+          await pool.release(lease.name);
+        }
+        console.log(JSON.stringify(holds));
+      })();
+    `, 5, { ...process.env, LOG_LEVEL: 'silent' });
+
+    const all = holds.flat();
+    expect(all).toHaveLength(15);
+    for (const a of all) {
+      const overlapping = all.filter(b => b !== a && b.name === a.name && b.from < a.to && a.from < b.to);
+      expect(overlapping, `${a.name} held twice at ${a.from}`).toEqual([]);
+    }
+  });
+});
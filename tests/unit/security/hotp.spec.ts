@@ -0,0 +1,61 @@
+import { test, expect } from '@playwright/test';
+import * as OTPAuth from 'otpauth';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileCounterStore, MemoryCounterStore } from '@security/counter-store';
+import { OTP } from '@security/otp';
+import { frameworkPath, runChildren } from '../support/child-process';
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+
+/**
+ * The code a hardware token produces for `counter`.
+ */
+function tokenCode(counter: number): string {
+  return new OTPAuth.HOTP({ secret: SECRET }).generate({ counter });
+}
+
+test.describe('HOTP', () => {
+  test('every code advances the stored counter and used codes are rejected', () => {
+    const otp = OTP.fromSecret(SECRET, { type: 'hotp', label: 'advance', counterStore: new MemoryCounterStore() });
+
+    expect(otp.getCode()).toBe(tokenCode(0));
+    expect(otp.getCode()).toBe(tokenCode(1));
+    expect(otp.getCounter()).toBe(2);
+    expect(otp.verify(tokenCode(1)).ok).toBe(false);
+    expect(otp.verify(tokenCode(3))).toMatchObject({ ok: true, delta: 1 });
+    expect(otp.getCounter()).toBe(4);
+  });
+
+  test('resync moves the counter past consecutive codes from the token', () => {
+    const otp = OTP.fromSecret(SECRET, { type: 'hotp', label: 'resync', counterStore: new MemoryCounterStore() });
+
+    expect(otp.resync([tokenCode(41), tokenCode(42)])).toBe(43);
+    expect(otp.getCounter()).toBe(43);
+    expect(otp.getCode()).toBe(tokenCode(43));
+  });
+
+  test('resync leaves the counter alone when the codes are not found', () => {
+    const otp = OTP.fromSecret(SECRET, { type: 'hotp', label: 'not-found', counterStore: new MemoryCounterStore() });
+
+    expect(otp.resync([tokenCode(150), tokenCode(151)])).toBeNull();
+    expect(otp.resync([tokenCode(12), tokenCode(14)], 20)).toBeNull();
+    expect(otp.getCounter()).toBe(0);
+  });
+
+  test('the default store shares counters between processes', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('workers');
+    const file = path.join(dir, 'counters.json');
+    fs.mkdirSync(dir, { recursive: true });
+
+    const codes = await runChildren<string[]>(dir, `
+      import { OTP } from ${JSON.stringify(frameworkPath('security/otp'))};
+      const otp = OTP.fromSecret(${JSON.stringify(SECRET)}, { type: 'hotp', label: 'shared' });
+      console.log(JSON.stringify(Array.from({ length: 10 }, () => otp.getCode())));
+    `, 3, { ...process.env, OTP_COUNTER_FILE: file });
+
+    expect(codes.flat().sort()).toEqual(Array.from({ length: 30 }, (_, i) => tokenCode(i)).sort());
+    const otp = OTP.fromSecret(SECRET, { type: 'hotp', label: 'shared', counterStore: new FileCounterStore(file) });
+    expect(otp.getCounter()).toBe(30);
+  });
+});
@@ -0,0 +1,46 @@
+import { test, expect } from '@playwright/test';
+import * as OTPAuth from 'otpauth';
+import { ClockSkew } from '@security/clock-skew';
+import { OTP } from '@security/otp';
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+const totp = new OTPAuth.TOTP({ secret: SECRET });
+
+test.describe('OTP timeline', () => {
+  test.afterEach(() => ClockSkew.reset());
+
+  test('now() and the default timestamp include the measured clock skew', () => {
+    ClockSkew.set({ offsetMs: 90_000, accuracyMs: 0, source: 'unit test' });
+    const otp = OTP.fromSecret(SECRET);
+
+    const now = otp.now();
+    expect(Math.abs(now - (Date.now() + 90_000))).toBeLessThan(1000);
+    expect([totp.generate({ timestamp: now }), totp.generate({ timestamp: otp.now() })]).toContain(otp.getCode());
+    // Three steps ahead of the local clock (two if a step boundary passed meanwhile).
+    expect([2, 3]).toContain(otp.getStepInfo().step - Math.floor(Date.now() / 30_000));
+  });
+
+  test('explicit timestamps are used as is, on the OTP timeline', () => {
+    ClockSkew.set({ offsetMs: 90_000, accuracyMs: 0, source: 'unit test' });
+    const otp = OTP.fromSecret(SECRET);
+    const at = Date.parse('2030-01-01T00:00:10Z');
+
+    expect(otp.getCode(at)).toBe(totp.generate({ timestamp: at }));
+    expect(otp.verify(totp.generate({ timestamp: at }), 0, at).ok).toBe(true);
+    expect(otp.getStepInfo(at)).toMatchObject({ step: Math.floor(at / 30_000), remainingMs: 20_000 });
+  });
+
+  test('an installed clock replaces the skewed local clock', () => {
+    ClockSkew.set({ offsetMs: 90_000, accuracyMs: 0, source: 'unit test' });
+    const at = Date.parse('2030-01-01T00:00:29Z');
+    const restore = OTP.useClock({ now: () => at });
+    try {
+      const otp = OTP.fromSecret(SECRET);
+      expect(otp.now()).toBe(at);
+      expect(otp.getCode()).toBe(totp.generate({ timestamp: at }));
+      expect(otp.getRemainingSeconds()).toBe(1);
+    } finally {
+      restore();
+    }
+  });
+});
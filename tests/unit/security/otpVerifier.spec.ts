@@ -0,0 +1,108 @@
+import { test, expect, type Page } from '@playwright/test';
+import { OTP } from '@security/otp';
+import { OTPVerifier } from '@security/otp-verifier';
+import { MemoryCounterStore } from '@security/counter-store';
+import { PageClock } from '@security/page-clock';
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+const START = Date.parse('2030-01-01T00:00:05Z');
+
+test.describe('OTPVerifier', () => {
+  let now: number;
+  let restoreClock: () => void;
+
+  test.beforeEach(() => {
+    now = START;
+    restoreClock = OTP.useClock({ now: () => now });
+  });
+
+  test.afterEach(() => restoreClock());
+
+  test('accepts a code once and rejects it as replayed afterwards', () => {
+    const otp = OTP.fromSecret(SECRET);
+    const verifier = new OTPVerifier(otp);
+    const code = otp.getCode();
+
+    expect(verifier.verify(code)).toEqual({ ok: true, delta: 0 });
+    expect(verifier.verify(code)).toMatchObject({ ok: false, reason: 'replayed', attemptsLeft: 4 });
+
+    now += 30_000;
+    expect(verifier.verify(code)).toMatchObject({ ok: false, reason: 'replayed' });
+    expect(verifier.verify(otp.getCode())).toEqual({ ok: true, delta: 0 });
+  });
+
+  test('reports malformed, wrong-length and out-of-window codes', () => {
+    const otp = OTP.fromSecret(SECRET);
+    const verifier = new OTPVerifier(otp, { maxAttempts: Infinity });
+
+    expect(verifier.verify('12a456')).toMatchObject({ ok: false, reason: 'malformed' });
+    expect(verifier.verify('12345')).toMatchObject({ ok: false, reason: 'wrong_length' });
+    expect(verifier.verify(otp.getCode(now - 90_000))).toMatchObject({ ok: false, reason: 'out_of_window' });
+    expect(verifier.verify(` ${otp.getCode(now - 30_000)} `)).toEqual({ ok: true, delta: -1 });
+  });
+
+  test('locks after maxAttempts failures, on the OTP clock', () => {
+    const otp = OTP.fromSecret(SECRET);
+    const verifier = new OTPVerifier(otp, { maxAttempts: 2, lockoutMs: 60_000 });
+
+    expect(verifier.verify('000000').ok).toBe(false);
+    expect(verifier.verify('000001')).toMatchObject({ reason: 'out_of_window', attemptsLeft: 0, lockedUntil: START + 60_000 });
+    expect(verifier.verify(otp.getCode())).toMatchObject({ ok: false, reason: 'locked', lockedUntil: START + 60_000 });
+
+    // Local time is irrelevant: only the OTP clock ends the lockout.
+    now = START + 59_999;
+    expect(verifier.verify(otp.getCode())).toMatchObject({ reason: 'locked' });
+    now = START + 60_000;
+    expect(verifier.verify(otp.getCode())).toEqual({ ok: true, delta: 0 });
+    expect(verifier.status).toEqual({ failures: 0, lockedUntil: undefined });
+  });
+
+  test('a success resets the failure count', () => {
+    const otp = OTP.fromSecret(SECRET);
+    const verifier = new OTPVerifier(otp, { maxAttempts: 2 });
+
+    verifier.verify('000000');
+    expect(verifier.verify(otp.getCode()).ok).toBe(true);
+    expect(verifier.verify('000000')).toMatchObject({ attemptsLeft: 1 });
+  });
+
+  test('tells HOTP replays apart from wrong codes', () => {
+    const otp = OTP.fromSecret(SECRET, { type: 'hotp', label: 'verifier', counterStore: new MemoryCounterStore() });
+    const server = new OTPVerifier(OTP.fromSecret(SECRET, { type: 'hotp', label: 'verifier', counterStore: new MemoryCounterStore() }));
+    const code = otp.getCode();
+
+    expect(server.verify(code)).toEqual({ ok: true, delta: 0 });
+    expect(server.verify(code)).toMatchObject({ ok: false, reason: 'replayed' });
+    expect(server.verify('000000')).toMatchObject({ ok: false, reason: 'out_of_window' });
+  });
+});
+
+test.describe('OTPVerifier on a PageClock', () => {
+  test('the lockout ends once the virtual clock advances past lockedUntil', async () => {
+    const calls: string[] = [];
+    const page = {
+      clock: {
+        install: async () => { calls.push('install'); },
+        pauseAt: async () => { calls.push('pauseAt'); },
+        runFor: async (ms: number) => { calls.push(`runFor ${ms}`); },
+      },
+    } as unknown as Page;
+    const clock = await PageClock.install(page, START);
+    const restore = OTP.useClock(clock);
+    try {
+      const otp = OTP.fromSecret(SECRET);
+      const verifier = new OTPVerifier(otp, { maxAttempts: 1, lockoutMs: 120_000 });
+
+      const { lockedUntil } = verifier.verify('000000') as { lockedUntil: number };
+      expect(lockedUntil).toBe(START + 120_000);
+      expect(verifier.verify(otp.getCode())).toMatchObject({ reason: 'locked' });
+
+      await clock.advanceTo(lockedUntil);
+      expect(calls).toEqual(['install', 'pauseAt', 'runFor 120000']);
+      expect(verifier.verify(otp.getCode())).toEqual({ ok: true, delta: 0 });
+      expect(verifier.status.failures).toBe(0);
+    } finally {
+      restore();
+    }
+  });
+});
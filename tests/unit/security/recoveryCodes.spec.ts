@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { RecoveryCodes } from '@security/recovery-codes';
+import { Secrets } from '@security/secrets';
+
+const CODES = ['a1b2-c3d4', 'e5f6-a7b8', 'c9d0-e1f2'];
+
+test.describe('RecoveryCodes', () => {
+  let file: string;
+
+  test.beforeEach(async ({}, testInfo) => {
+    file = testInfo.outputPath('recovery-codes.json');
+  });
+
+  test('hands out each code once, across instances', () => {
+    const codes = new RecoveryCodes('mfa-user', CODES, { file, warnBelow: 0 });
+    expect(codes.remaining).toBe(3);
+    expect(codes.consume()).toBe('a1b2-c3d4');
+
+    const again = new RecoveryCodes('mfa-user', CODES, { file, warnBelow: 0 });
+    expect(again.remaining).toBe(2);
+    again.markUsed(' e5f6-a7b8 ');
+    expect(again.consume()).toBe('c9d0-e1f2');
+    expect(() => again.consume()).toThrow('RecoveryCodes: All 3 recovery codes of mfa-user are used.');
+
+    again.reset();
+    expect(codes.remaining).toBe(3);
+    expect(new RecoveryCodes('other-user', CODES, { file }).remaining).toBe(3);
+    expect(Secrets.isSecret('c9d0-e1f2')).toBe(true);
+  });
+
+  test('stores salted HMAC digests rather than the codes', () => {
+    new RecoveryCodes('mfa-user', CODES, { file, warnBelow: 0 }).consume();
+
+    const state = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(state.salt).toMatch(/^[0-9a-f]{64}$/);
+    expect(state.used).toEqual({
+      'mfa-user': [crypto.createHmac('sha256', state.salt).update('a1b2-c3d4').digest('hex')],
+    });
+    expect(fs.readFileSync(file, 'utf8')).not.toContain('a1b2');
+
+    // The salt is kept once generated.
+    new RecoveryCodes('mfa-user', CODES, { file, warnBelow: 0 }).consume();
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).salt).toBe(state.salt);
+  });
+
+  test('rejects corrupt state files', () => {
+    const codes = new RecoveryCodes('mfa-user', CODES, { file });
+
+    fs.writeFileSync(file, '{');
+    expect(() => codes.remaining).toThrow(`RecoveryCodes: Corrupt state file ${file}`);
+
+    fs.writeFileSync(file, JSON.stringify({ 'mfa-user': ['0123456789abcdef'] }));
+    expect(() => codes.consume()).toThrow(`RecoveryCodes: Corrupt state file ${file}: expected { salt, used }`);
+  });
+
+  test('annotates the test when few codes are left', () => {
+    const codes = new RecoveryCodes('mfa-user', CODES, { file, warnBelow: 1 });
+    codes.consume();
+    expect(test.info().annotations).toEqual([]);
+    codes.consume();
+    expect(test.info().annotations).toEqual([
+      { type: 'recovery-codes', description: 'only 1 of 3 recovery codes left for mfa-user' },
+    ]);
+  });
+});
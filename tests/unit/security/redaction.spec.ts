@@ -0,0 +1,78 @@
+import { test, expect } from '@playwright/test';
+import { frameworkPath } from '../support/child-process';
+import { runNestedProject } from '../support/nested-run';
+
+test.describe('redaction in a real run', () => {
+  test.setTimeout(180_000);
+
+  test('masks env secrets in step titles and output, and leaves traces out of the report', async ({}, testInfo) => {
+    const report = runNestedProject(testInfo.outputPath('project'), `
+      import { test } from ${JSON.stringify(frameworkPath('security/fixtures'))};
+      import { Env } from ${JSON.stringify(frameworkPath('env/env'))};
+
+      test('uses the password', async () => {
+        const password = Env.getString('HEROKU_PWD');
+        console.log('password is ' + password);
+        console.error('still ' + password);
+        await test.step('typing ' + password, async () => {});
+      });
+    `, { HEROKU_PWD: 'Sup3rS3cretPwd' });
+
+    expect(report).not.toContain('Sup3rS3cretPwd');
+    expect(report).toContain('typing ******');
+    expect(report).toContain('password is ******');
+    expect(report).not.toMatch(/"name": "trace"/);
+  });
+
+  test('masks account passwords and derived OTP codes in the runner', async ({}, testInfo) => {
+    const otpUri = 'otpauth://totp/App:admin?secret=JBSWY3DPEHPK3PXP&issuer=App';
+    // A plain Playwright test: nothing in the worker registers or masks the account.
+    const report = runNestedProject(testInfo.outputPath('project'), `
+      import { test } from '@playwright/test';
+      import * as OTPAuth from 'otpauth';
+
+      test('types the account credentials', async () => {
+        await test.step('typing Adm1nPassw0rd', async () => {});
+        const code = OTPAuth.URI.parse(${JSON.stringify(otpUri)}).generate();
+        await test.step('code ' + code, async () => {});
+        console.log('otp code ' + code);
+      });
+    `, { TEST_ACCOUNTS: JSON.stringify({ admin: { username: 'admin@example.com', password: 'Adm1nPassw0rd', otpUri } }) });
+
+    expect(report).not.toContain('Adm1nPassw0rd');
+    expect(report).toContain('typing ******');
+    expect(report).toContain('code ******');
+    expect(report).toContain('otp code ******');
+  });
+
+  test('masks derived TOTP codes on the skewed server clock', async ({}, testInfo) => {
+    const otpUri = 'otpauth://totp/App:admin?secret=JBSWY3DPEHPK3PXP&issuer=App';
+    const report = runNestedProject(testInfo.outputPath('project'), `
+      import { test } from '@playwright/test';
+      import * as OTPAuth from 'otpauth';
+
+      test('types a code generated on the server clock', async () => {
+        const code = OTPAuth.URI.parse(${JSON.stringify(otpUri)}).generate({ timestamp: Date.now() + 90_000 });
+        await test.step('fill("' + code + '")', async () => {});
+      });
+    `, { OTP_CLOCK_SKEW_MS: '90000', TEST_ACCOUNTS: JSON.stringify({ admin: { username: 'admin@example.com', password: 'Adm1nPassw0rd', otpUri } }) });
+
+    expect(report).toContain('fill(\\"******\\")');
+  });
+
+  test('masks HOTP codes generated in the worker, and drops the handover attachment', async ({}, testInfo) => {
+    const report = runNestedProject(testInfo.outputPath('project'), `
+      import { test } from ${JSON.stringify(frameworkPath('security/fixtures'))};
+      import { OTP } from ${JSON.stringify(frameworkPath('security/otp'))};
+      import { MemoryCounterStore } from ${JSON.stringify(frameworkPath('security/counter-store'))};
+
+      test('types an HOTP code', async () => {
+        const otp = OTP.fromSecret('JBSWY3DPEHPK3PXP', { type: 'hotp', label: 'nested', counterStore: new MemoryCounterStore() });
+        await test.step('hotp ' + otp.getCode(), async () => {});
+      });
+    `, {});
+
+    expect(report).toContain('hotp ******');
+    expect(report).not.toContain('redaction-transient-secrets');
+  });
+});
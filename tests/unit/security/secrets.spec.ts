@@ -0,0 +1,32 @@
+import { test, expect } from '@playwright/test';
+import { Secrets } from '@security/secrets';
+
+test.describe('Secrets', () => {
+  test.afterEach(() => Secrets.clear());
+
+  test('masks registered values and their URL-encoded form', () => {
+    Secrets.register('p@ss word');
+
+    expect(Secrets.mask('login p@ss word, url p%40ss%20word')).toBe('login ******, url ******');
+    expect(Secrets.isSecret('p@ss word')).toBe(true);
+  });
+
+  test('forgets transient values once cleared, keeping long-lived ones', () => {
+    Secrets.register('Sup3rS3cret');
+    Secrets.registerTransient('123456');
+    expect(Secrets.mask('code 123456 for Sup3rS3cret')).toBe('code ****** for ******');
+
+    Secrets.clearTransient();
+
+    expect(Secrets.mask('order 123456 for Sup3rS3cret')).toBe('order 123456 for ******');
+    expect(Secrets.isSecret('123456')).toBe(false);
+  });
+
+  test('a transient value already registered for good stays masked', () => {
+    Secrets.register('424242');
+    Secrets.registerTransient('424242');
+    Secrets.clearTransient();
+
+    expect(Secrets.mask('424242')).toBe('******');
+  });
+});
@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import { normalizeNumber, SmsReceiver } from '@framework/sms/sms-receiver';
+import { frameworkPath } from '../support/child-process';
+import { runNestedProject } from '../support/nested-run';
+
+test.describe('SmsReceiver', () => {
+  let receiver: SmsReceiver;
+
+  test.beforeEach(async () => {
+    receiver = await SmsReceiver.start();
+  });
+
+  test.afterEach(async () => {
+    await receiver.stop();
+  });
+
+  test('normalizes phone numbers', () => {
+    expect(normalizeNumber('+1 (555) 010-0000')).toBe('+15550100000');
+    expect(normalizeNumber('+44.20.7946.0000')).toBe('+442079460000');
+  });
+
+  test('reads JSON payloads with body, text or message', async () => {
+    for (const payload of [
+      { to: '+1 555 010 0001', from: 'App', body: 'Code 111111' },
+      { to: '+15550100001', text: 'Code 222222' },
+      { to: '+15550100001', message: 'Code 333333' },
+    ]) {
+      const res = await fetch(receiver.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json; charset=utf-8' },
+        body: JSON.stringify(payload),
+      });
+      expect(res.status).toBe(204);
+    }
+
+    expect(receiver.messages.map(m => [m.to, m.from, m.body])).toEqual([
+      ['+15550100001', 'App', 'Code 111111'],
+      ['+15550100001', '', 'Code 222222'],
+      ['+15550100001', '', 'Code 333333'],
+    ]);
+  });
+
+  test('reads Twilio-style form posts', async () => {
+    const res = await fetch(receiver.url, {
+      method: 'POST',
+      body: new URLSearchParams({ To: '+1 (555) 010-0002', From: '+15550109999', Body: 'Your code: 444444' }),
+    });
+    expect(res.status).toBe(204);
+
+    const sms = await receiver.waitForMessage({ to: '+15550100002', body: /\d{6}/, timeoutMs: 1000 });
+    expect(sms).toMatchObject({ to: '+15550100002', from: '+15550109999', body: 'Your code: 444444' });
+    expect(receiver.messages).toEqual([]);
+  });
+
+  test('rejects malformed payloads and other methods', async () => {
+    const missing = await fetch(receiver.url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{"from":"x"}' });
+    expect(missing.status).toBe(400);
+    expect(await missing.text()).toBe('SmsReceiver: expected `to` and `body` fields');
+
+    const invalid = await fetch(receiver.url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{' });
+    expect(invalid.status).toBe(400);
+
+    expect((await fetch(receiver.url)).status).toBe(405);
+    expect(receiver.messages).toEqual([]);
+  });
+
+  test('waits for a matching message and times out with the query', async () => {
+    const waiting = receiver.waitForMessage({ to: '+15550100003', body: 'login', timeoutMs: 5000 });
+    await fetch(receiver.url, { method: 'POST', body: new URLSearchParams({ To: '+15550100003', Body: 'other' }) });
+    await fetch(receiver.url, { method: 'POST', body: new URLSearchParams({ To: '+15550100003', Body: 'login 555555' }) });
+
+    expect((await waiting).body).toBe('login 555555');
+    expect(receiver.messages.map(m => m.body)).toEqual(['other']);
+    await expect(receiver.waitForMessage({ to: '+15550100004', timeoutMs: 100 }))
+      .rejects.toThrow('SmsReceiver: No SMS to +15550100004 within 100 ms');
+  });
+});
+
+test.describe('smsInbox fixture', () => {
+  test('drops messages left over by a previous test in the worker', async ({}, testInfo) => {
+    test.setTimeout(180_000);
+    const report = JSON.parse(runNestedProject(testInfo.outputPath('project'), `
+      import { expect } from '@playwright/test';
+      import { test } from ${JSON.stringify(frameworkPath('sms/fixtures'))};
+
+      test.describe.configure({ mode: 'serial' });
+
+      test('leaves a message behind', async ({ smsInbox }) => {
+        await fetch(smsInbox.url, { method: 'POST', body: new URLSearchParams({ To: '+15550100005', Body: 'Code 111111' }) });
+        expect(smsInbox.messages).toHaveLength(1);
+      });
+
+      test('starts with an empty inbox', async ({ smsInbox }) => {
+        expect(smsInbox.messages).toEqual([]);
+      });
+    `, {}));
+
+    expect(report.stats).toMatchObject({ expected: 2, unexpected: 0 });
+  });
+});
@@ -0,0 +1,80 @@
+import { spawn, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Absolute path of a framework module, for imports from scripts that run
+ * outside the repository (no path aliases there).
+ */
+export function frameworkPath(module: string): string {
+  return path.resolve(__dirname, '../../../framework', module);
+}
+
+/**
+ * Run a TypeScript snippet in a new Node process, the way Playwright forks
+ * a worker: `env` defaults to this process's `process.env`.
+ *
+ * @param dir - Working directory of the child (where its `.env` files are read).
+ * @param source - Module source; print results with `console.log(JSON.stringify(...))`.
+ * @returns The child's stdout, parsed as JSON when it is (typed by the caller as `T`).
+ * @throws If the child exits with an error.
+ */
+export function runChild<T = unknown>(dir: string, source: string, env: NodeJS.ProcessEnv = process.env): T {
+  const file = path.join(dir, `child-${process.pid}-${Date.now()}.ts`);
+  fs.writeFileSync(file, source);
+  try {
+    const result = spawnSync(process.execPath, [require.resolve('tsx/cli'), file], {
+      cwd: dir,
+      env,
+      encoding: 'utf8',
+      timeout: 60_000,
+    });
+    if (result.status !== 0) throw new Error(`Child failed (${result.status}): ${result.stderr || result.error}`);
+    const out = result.stdout.trim();
+    try {
+      return JSON.parse(out) as T;
+    } catch {
+      return out as T;
+    }
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+/**
+ * Run the same TypeScript snippet in `count` Node processes at once, e.g.
+ * to race several "workers" for a shared file. Each child gets its index
+ * in `CHILD_INDEX`.
+ *
+ * @returns The stdout of every child (parsed as JSON when it is, typed by
+ * the caller as `T`), by index.
+ * @throws If any child exits with an error.
+ */
+export async function runChildren<T = unknown>(dir: string, source: string, count: number, env: NodeJS.ProcessEnv = process.env): Promise<T[]> {
+  const file = path.join(dir, `children-${process.pid}-${Date.now()}.ts`);
+  fs.writeFileSync(file, source);
+  try {
+    return await Promise.all(Array.from({ length: count }, (_, index) => new Promise<T>((resolve, reject) => {
+      const child = spawn(process.execPath, [require.resolve('tsx/cli'), file], {
+        cwd: dir,
+        env: { ...env, CHILD_INDEX: String(index) },
+        timeout: 60_000,
+      });
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', chunk => stdout += chunk);
+      child.stderr.on('data', chunk => stderr += chunk);
+      child.on('error', reject);
+      child.on('close', status => {
+        if (status !== 0) return reject(new Error(`Child ${index} failed (${status}): ${stderr}`));
+        try {
+          resolve(JSON.parse(stdout.trim()) as T);
+        } catch {
+          resolve(stdout.trim() as T);
+        }
+      });
+    })));
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
@@ -0,0 +1,46 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { frameworkPath } from './child-process';
+
+/**
+ * Run a small Playwright project (no browser) through the redaction
+ * reporter and a JSON reporter, as a separate `playwright test` run.
+ *
+ * @param dir - Empty directory inside the repository (so `@playwright/test` resolves).
+ * @param spec - Source of the single spec file; import framework modules through {@link frameworkPath}.
+ * @param env - Extra environment variables of the run.
+ * @returns The raw JSON report text.
+ */
+export function runNestedProject(dir: string, spec: string, env: Record<string, string>): string {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'playwright.config.ts'), `
+    import { defineConfig } from '@playwright/test';
+    import { registerKnownSecrets } from ${JSON.stringify(frameworkPath('security/known-secrets'))};
+    registerKnownSecrets();
+    export default defineConfig({
+      testDir: '.',
+      outputDir: './results',
+      retries: 0,
+      reporter: [
+        [${JSON.stringify(frameworkPath('reporters/redaction-reporter.ts'))}],
+        ['json', { outputFile: ${JSON.stringify(path.join(dir, 'report.json'))} }],
+      ],
+      use: { trace: 'on' },
+    });
+  `);
+  fs.writeFileSync(path.join(dir, 'nested.spec.ts'), spec);
+
+  // Drop the outer run's worker variables so the nested runner starts clean.
+  const baseEnv = Object.fromEntries(Object.entries(process.env).filter(([k]) => !/^(TEST_|PW_|PLAYWRIGHT_)/.test(k)));
+  const cli = path.join(path.dirname(require.resolve('@playwright/test/package.json')), 'cli.js');
+  const result = spawnSync(process.execPath, [cli, 'test', '-c', path.join(dir, 'playwright.config.ts')], {
+    cwd: dir,
+    env: { ...baseEnv, ...env },
+    encoding: 'utf8',
+    timeout: 120_000,
+  });
+  const report = path.join(dir, 'report.json');
+  if (!fs.existsSync(report)) throw new Error(`Nested run failed (${result.status}): ${result.stderr}${result.stdout}`);
+  return fs.readFileSync(report, 'utf8');
+}
@@ -0,0 +1,111 @@
+import { test, expect } from '@playwright/test';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { withFileLock, withFileLockSync } from '@framework/utils/file-lock';
+import { frameworkPath, runChildren } from '../support/child-process';
+
+/**
+ * Id of a process that has already exited.
+ */
+function deadPid(): number {
+  return spawnSync(process.execPath, ['-e', '0']).pid!;
+}
+
+test.describe('file lock', () => {
+  let dir: string;
+  let lock: string;
+
+  test.beforeEach(async ({}, testInfo) => {
+    dir = testInfo.outputPath('locks');
+    fs.mkdirSync(dir, { recursive: true });
+    lock = path.join(dir, 'data.lock');
+  });
+
+  test('takes over a lock whose owner is gone', () => {
+    fs.writeFileSync(lock, String(deadPid()));
+
+    expect(withFileLockSync(lock, () => 'ran', { timeoutMs: 1000 })).toBe('ran');
+    expect(fs.existsSync(lock)).toBe(false);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  test('takes over a lock older than staleMs, but waits for a fresh one', async () => {
+    fs.writeFileSync(lock, String(process.pid));
+    expect(() => withFileLockSync(lock, () => 'ran', { timeoutMs: 200 })).toThrow('FileLock: Timed out after 200 ms');
+
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lock, old, old);
+    expect(await withFileLock(lock, async () => 'ran', { timeoutMs: 1000 })).toBe('ran');
+  });
+
+  test('does not remove a lock another process took over', () => {
+    withFileLockSync(lock, () => {
+      fs.writeFileSync(lock, 'someone else');
+    });
+    expect(fs.readFileSync(lock, 'utf8')).toBe('someone else');
+  });
+
+  test('serializes processes racing for a stale lock', async () => {
+    const counter = path.join(dir, 'counter.txt');
+    fs.writeFileSync(counter, '0');
+    fs.writeFileSync(lock, String(deadPid()));
+
+    await runChildren(dir, `
+      import * as fs from 'fs';
+      import { withFileLockSync } from ${JSON.stringify(frameworkPath('utils/file-lock'))};
+      for (let i = 0; i < 50; i++) {
+        withFileLockSync(${JSON.stringify(lock)}, () => {
+          const value = Number(fs.readFileSync(${JSON.stringify(counter)}, 'utf8'));
+          fs.writeFileSync(${JSON.stringify(counter)}, String(value + 1));
+        }, { retryMs: 1 });
+      }
+    `, 4);
+
+    expect(fs.readFileSync(counter, 'utf8')).toBe('200');
+    expect(fs.existsSync(lock)).toBe(false);
+  });
+
+  test('keeps processes exclusive while others take over abandoned locks', async () => {
+    const inside = path.join(dir, 'inside');
+    const results = await runChildren<{ abandoned: number; overlaps: number; entered: number }>(dir, `
+      import * as fs from 'fs';
+      import { spawnSync } from 'child_process';
+      import { withFileLockSync } from ${JSON.stringify(frameworkPath('utils/file-lock'))};
+      const pause = (ms: number) => Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+      if (Number(process.env.CHILD_INDEX) < 2) {
+        // Acquire like a worker that then crashes: the lock is left behind with a dead owner.
+        const dead = spawnSync(process.execPath, ['-e', '0']).pid;
+        let abandoned = 0;
+        for (let i = 0; i < 200 && abandoned < 30; i++) {
+          try {
+            fs.writeFileSync(${JSON.stringify(lock)}, dead + ' crashed-' + i, { flag: 'wx' });
+            abandoned++;
+          } catch {}
+          pause(2);
+        }
+        console.log(JSON.stringify({ abandoned, overlaps: 0, entered: 0 }));
+      } else {
+        let overlaps = 0;
+        for (let i = 0; i < 30; i++) {
+          withFileLockSync(${JSON.stringify(lock)}, () => {
+            try {
+              fs.writeFileSync(${JSON.stringify(inside)}, '', { flag: 'wx' });
+            } catch {
+              overlaps++;
+              return;
+            }
+            pause(3);
+            fs.rmSync(${JSON.stringify(inside)});
+          }, { retryMs: 1 });
+        }
+        console.log(JSON.stringify({ abandoned: 0, overlaps, entered: 30 }));
+      }
+    `, 5) as { abandoned: number; overlaps: number; entered: number }[];
+
+    expect(results.reduce((sum, r) => sum + r.entered, 0)).toBe(90);
+    expect(results.reduce((sum, r) => sum + r.abandoned, 0)).toBeGreaterThan(0);
+    expect(results.map(r => r.overlaps)).toEqual([0, 0, 0, 0, 0]);
+    expect(fs.readdirSync(dir).filter(f => f.endsWith('.removing'))).toEqual([]);
+  });
+});
@@ -1,42 +1,34 @@
-import { test, expect } from '@playwright/test';
+import { test, expect, requireConfig } from '@fixtures';
 import { Env } from '@env';
-import { OTP } from '@security/otp';
 
-Env.require("HEROKU_USERNAME", "HEROKU_PWD", "HEROKU_OTP_URI");
-
-test.beforeEach(async ({ page }) => {
-  await page.goto('https://www.heroku.com/');
+test.beforeEach(async ({ app }) => {
+  // The "default" account is built from these; see Accounts.
+  requireConfig(() => Env.schema({
+    HEROKU_USERNAME: { type: 'string', description: 'Heroku login email' },
+    HEROKU_PWD:      { type: 'string', secret: true, description: 'Heroku password' },
+    HEROKU_OTP_URI:  { type: 'string', secret: true, description: 'otpauth:// URI of the Heroku authenticator' },
+  }));
+  await app.heroku.home.open();
 });
 
-test('Login successfully', async ({ page }) => {
-  const username  = Env.getString('HEROKU_USERNAME');
-  const password = Env.getString('HEROKU_PWD');
-
+test('Login successfully', async ({ app, account, otp }) => {
   await test.step('Go to Login page', async () => {
-    await page.getByRole('button', { name: 'Login' }).click();
+    await app.heroku.home.goToLogin();
   });
 
   await test.step('Perform login with an account', async () => {
-    await page.getByRole('textbox', { name: 'Email address' }).fill(username);
-    await page.getByRole('textbox', { name: 'Password' }).fill(password);
-    await page.getByRole('button', { name: 'Log In' }).click();
+    await app.heroku.login.submitCredentials(account.username, account.password);
   });
 
   await test.step('Verify OTP authentication', async () => {
-    let utcTimestamp = Date.now();
-    const otp = OTP.fromEnv("HEROKU_OTP_URI");
-    const code = otp.getCode(utcTimestamp);
+    const code = await otp.getFreshCode({ minRemainingMs: 5000 });
 
-    if (!otp.verify(code, 1)) {
-      throw new Error(`Generated OTP ${code} is not valid`);
-    } 
-    expect(otp.verify(code, 1)).toBeTruthy();
+    expect(code).toBeValidOtp(otp, { window: 1 });
 
-    await page.getByRole('textbox', { name: 'Verification Code' }).fill(code);
-    await page.getByRole('button', { name: 'Verify' }).click();
+    await app.heroku.twoFactor.verify(code);
   });
 
   await test.step('Verify dashboard is displayed', async () => {
-    await expect(page.getByText('Welcome to Heroku')).toBeVisible({ timeout: 20000 });
+    await app.heroku.dashboard.expectWelcome();
   });
-});
\ No newline at end of file
+});
@@ -1,32 +1,31 @@
-import { test, expect } from '@playwright/test';
-
-test.beforeEach(async ({ page }) => {
-  await page.goto('https://github.com/');
+import { test, expect } from '@fixtures';
+import { eachRow } from '@framework/data/data-driven';
+import { loadData } from '@framework/data/data-set';
+
+const cases = loadData('github-login-failures.yaml', {
+  case:     { type: 'string' },
+  username: { type: 'string' },
+  password: { type: 'string' },
+  message:  { type: 'string' },
 });
 
-test('Login fail', async ({ page }) => {
-
-  await test.step('Go to Login page', async () => {
-    await page.getByRole('link', { name: 'Sign in' }).click();
-  });
-
-  await test.step('Enter incorrect username & password', async () => {
-    const tbUsername = page.getByLabel('Username or email address');
-    const tbPassword = page.getByRole('textbox', { name: 'Password' })
-
-    await tbUsername.fill('testusername');
-    await tbPassword.fill('testpassword');
-  });
+test.beforeEach(async ({ app }) => {
+  await app.github.home.open();
+});
 
-  await test.step('Click button login', async () => {
-    const btnLogin = page.getByRole('button', { name: 'Sign in', exact: true });
+for (const { title, row } of eachRow(cases, 'Login fail: {case}')) {
+  test(title, async ({ page, app }) => {
 
-    await btnLogin.click();
-  });
+    await test.step('Go to Login page', async () => {
+      await app.github.home.goToSignIn();
+    });
 
-  await test.step('Should show validation alert', async () => {
-    const lbAlert = page.getByRole('alert');
+    await test.step('Enter incorrect username & password and click button login', async () => {
+      await app.github.login.signIn(row);
+    });
 
-    await expect(lbAlert).toContainText('Incorrect username or password.');
+    await test.step('Should show validation alert', async () => {
+      await expect(page).toShowAlert(row.message);
+    });
   });
-});
+}
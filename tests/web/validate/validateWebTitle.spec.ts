@@ -1,9 +1,9 @@
-import { test, expect } from '@playwright/test';
+import { test } from '@fixtures';
 
-test.beforeEach(async ({ page }) => {
-  await page.goto('https://github.com/');
+test.beforeEach(async ({ app }) => {
+  await app.github.home.open();
 });
 
-test('Has title', async ({ page }) => {
-  await expect(page).toHaveTitle(/GitHub/);
+test('Has title', async ({ app }) => {
+  await app.github.home.expectTitle();
 });